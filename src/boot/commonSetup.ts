@@ -1,9 +1,16 @@
 import { App } from "vue";
 import { createPinia } from "pinia";
+import { chainService } from "@/chains/ergo/services/chainService";
+import { setSessionKeyProvider } from "@/chains/ergo/transaction/sessionKeys";
+import { getSettings } from "@/extension/background/settings";
+import { getSessionKey, unlockSession } from "@/extension/connector/rpc/uiRpcHandlers";
 import { setupI18n } from "@/i18n";
 
 import "@/assets/styles/index.css";
 
 export function setupApp(app: App): App {
+  setSessionKeyProvider({ get: getSessionKey, keep: unlockSession });
+  getSettings().then((settings) => chainService.configure(settings));
+
   return app.use(createPinia()).use(setupI18n());
 }
@@ -2,7 +2,7 @@ import { BabelBox, buildBabelContract, isValidBabelBox } from "@fleet-sdk/babel-
 import { Box, first } from "@fleet-sdk/common";
 import BigNumber from "bignumber.js";
 import { orderBy, sortBy } from "es-toolkit";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
 import { bn } from "@/common/bigNumber";
 import { safeSigmaDecode } from "./serialization";
 
@@ -13,7 +13,7 @@ export function getNanoErgsPerTokenRate(box: Box): BigNumber {
 }
 
 export async function fetchBabelBoxes(tokenIds: string[], price = bn(0)): Promise<BabelBox[]> {
-  const boxes = await graphQLService.getBoxes({
+  const boxes = await chainService.getBoxes({
     from: "blockchain+mempool",
     where: { ergoTrees: tokenIds.map(buildBabelContract) }
   });
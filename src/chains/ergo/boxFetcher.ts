@@ -1,6 +1,6 @@
 import { BoxSource, ChainProviderBox } from "@fleet-sdk/blockchain-providers";
 import { difference, sortBy, unionBy } from "es-toolkit";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
 import { ERG_TOKEN_ID } from "@/constants/ergo";
 import { addressesDbService } from "@/database/addressesDbService";
 import { assetsDbService } from "@/database/assetsDbService";
@@ -15,9 +15,9 @@ export async function fetchBoxes(
   const localUnconfirmedBoxes = await utxosDbService.getByWalletId(walletId);
   const from: BoxSource = includeUnconf ? "blockchain+mempool" : "blockchain";
 
-  let boxes = await graphQLService.getBoxes({ where: { addresses }, from });
+  let boxes = await chainService.getBoxes({ where: { addresses }, from });
   if (boxes.length === 0 && !localUnconfirmedBoxes.find((b) => !b.locked && b.content)) {
-    boxes = await graphQLService.getBoxes({
+    boxes = await chainService.getBoxes({
       where: { addresses: difference(await getAllAddresses(walletId), addresses) },
       from
     });
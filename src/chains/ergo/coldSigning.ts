@@ -0,0 +1,100 @@
+import { EIP12UnsignedTransaction, SignedTransaction } from "@fleet-sdk/common";
+import { base64 } from "@fleet-sdk/crypto";
+import { serializeBox, serializeTransaction } from "@fleet-sdk/serializer";
+import { ErgoBox, ReducedTransaction, Transaction } from "ergo-lib-wasm-browser";
+import { useWalletStore } from "@/stores/walletStore";
+import { hdKeyPool } from "@/common/objectPool";
+import { toQrChunks } from "@/common/qrChunks";
+import { normalizeBase64 } from "@/common/serializer";
+import { chainService } from "./services/chainService";
+import { Prover } from "./transaction/prover";
+
+export const COLD_SIGNING_REQUEST_PREFIX = "CSR";
+export const COLD_SIGNED_TRANSACTION_PREFIX = "CSTX";
+
+/**
+ * EIP-19 cold signing request. `inputs` holds the serialized input boxes, so the
+ * offline signer can show what is being spent.
+ */
+export type ColdSigningRequest = {
+  reducedTx: string;
+  sender?: string;
+  inputs?: string[];
+};
+
+export type ColdSignedTransaction = {
+  signedTx: string;
+};
+
+export type DecodedColdSigningRequest = {
+  transaction: EIP12UnsignedTransaction;
+  reducedTransaction: Uint8Array;
+};
+
+/**
+ * Reduces the transaction with the current wallet and splits the resulting signing
+ * request into QR code pages.
+ */
+export async function createColdSigningRequest(
+  transaction: EIP12UnsignedTransaction,
+  sender: string
+): Promise<string[]> {
+  const wallet = useWalletStore();
+  const headers = await chainService.getHeaders({ take: 10 });
+  const reduced = new Prover(hdKeyPool.get(wallet.publicKey))
+    .setHeaders(headers)
+    .reduceTransaction(transaction);
+
+  const request: ColdSigningRequest = {
+    reducedTx: base64.encode(reduced),
+    sender,
+    inputs: transaction.inputs.map((input) => base64.encode(serializeBox(input).toBytes()))
+  };
+
+  return toQrChunks(COLD_SIGNING_REQUEST_PREFIX, JSON.stringify(request));
+}
+
+/**
+ * Decodes a scanned signing request into a transaction that can be reviewed, along
+ * with the reduced transaction to be signed.
+ */
+export function decodeColdSigningRequest(data: string): DecodedColdSigningRequest {
+  const request = JSON.parse(data) as ColdSigningRequest;
+  if (typeof request.reducedTx !== "string") throw Error("Invalid cold signing request.");
+  if (!request.inputs?.length) {
+    throw Error("The signing request doesn't include its inputs, so it can't be reviewed.");
+  }
+
+  const reducedTransaction = base64.decode(normalizeBase64(request.reducedTx));
+  const unsigned = ReducedTransaction.sigma_parse_bytes(reducedTransaction)
+    .unsigned_tx()
+    .to_js_eip12() as EIP12UnsignedTransaction;
+
+  const boxes = request.inputs.map((input) =>
+    ErgoBox.sigma_parse_bytes(base64.decode(normalizeBase64(input))).to_js_eip12()
+  ) as Omit<EIP12UnsignedTransaction["inputs"][number], "extension">[];
+
+  const inputs = unsigned.inputs.map((input) => {
+    const box = boxes.find((b) => b.boxId === input.boxId);
+    if (!box) throw Error(`Input '${input.boxId}' is missing from the signing request.`);
+
+    return { ...box, extension: input.extension };
+  });
+
+  return { transaction: { ...unsigned, inputs }, reducedTransaction };
+}
+
+export function encodeSignedTransaction(transaction: SignedTransaction): string[] {
+  const signed: ColdSignedTransaction = {
+    signedTx: base64.encode(serializeTransaction(transaction).toBytes())
+  };
+
+  return toQrChunks(COLD_SIGNED_TRANSACTION_PREFIX, JSON.stringify(signed));
+}
+
+export function decodeSignedTransaction(data: string): SignedTransaction {
+  const { signedTx } = JSON.parse(data) as ColdSignedTransaction;
+  if (typeof signedTx !== "string") throw Error("Invalid signed transaction.");
+
+  return Transaction.sigma_parse_bytes(base64.decode(normalizeBase64(signedTx))).to_js_eip12();
+}
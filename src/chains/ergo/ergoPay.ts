@@ -0,0 +1,106 @@
+import { EIP12UnsignedTransaction } from "@fleet-sdk/common";
+import { base64 } from "@fleet-sdk/crypto";
+import { ReducedTransaction } from "ergo-lib-wasm-browser";
+import { normalizeBase64 } from "@/common/serializer";
+import { chainService } from "./services/chainService";
+
+export const ERGO_PAY_PROTOCOL = "ergopay:";
+export const ADDRESS_PLACEHOLDER = "#P2PK_ADDRESS#";
+
+const DYNAMIC_REQUEST_PREFIX = "ergopay://";
+
+export type ErgoPayMessageSeverity = "INFORMATION" | "WARNING" | "ERROR" | "NONE";
+
+/**
+ * ErgoPay response as specified by EIP-20. Static requests carry the reduced
+ * transaction in the URL itself, so only `reducedTx` is set for them.
+ */
+export type ErgoPayResponse = {
+  reducedTx?: string;
+  address?: string;
+  message?: string;
+  messageSeverity?: ErgoPayMessageSeverity;
+  replyTo?: string;
+};
+
+export function isErgoPayUrl(url: string): boolean {
+  return url.trim().toLowerCase().startsWith(ERGO_PAY_PROTOCOL);
+}
+
+export function isDynamicRequest(url: string): boolean {
+  return url.trim().toLowerCase().startsWith(DYNAMIC_REQUEST_PREFIX);
+}
+
+export function requiresAddress(url: string): boolean {
+  return isDynamicRequest(url) && url.includes(ADDRESS_PLACEHOLDER);
+}
+
+/**
+ * Resolves an ErgoPay URL. Dynamic requests are fetched over HTTPS after replacing
+ * the `#P2PK_ADDRESS#` placeholder by `address`.
+ */
+export async function resolveErgoPayRequest(
+  url: string,
+  address?: string
+): Promise<ErgoPayResponse> {
+  url = url.trim();
+  if (!isErgoPayUrl(url)) throw Error("Invalid ErgoPay URL.");
+  if (!isDynamicRequest(url)) return { reducedTx: url.slice(ERGO_PAY_PROTOCOL.length) };
+
+  if (requiresAddress(url)) {
+    if (!address) throw Error("An address is required to resolve this ErgoPay request.");
+    url = url.replaceAll(ADDRESS_PLACEHOLDER, address);
+  }
+
+  const response = await fetch(`https://${url.slice(DYNAMIC_REQUEST_PREFIX.length)}`, {
+    headers: { Accept: "application/json" }
+  });
+
+  const data = (await response.json().catch(() => ({}))) as ErgoPayResponse;
+  if (!response.ok) throw Error(data.message ?? response.statusText);
+  if (!data.reducedTx && !data.message) throw Error("Empty ErgoPay response.");
+
+  return data;
+}
+
+/**
+ * Decodes a Base64 URL-safe encoded reduced transaction and fetches its inputs and
+ * data inputs, so it can be reviewed and signed like any other transaction.
+ */
+export async function decodeReducedTransaction(
+  reducedTx: string
+): Promise<EIP12UnsignedTransaction> {
+  const bytes = base64.decode(normalizeBase64(reducedTx));
+  const unsigned = ReducedTransaction.sigma_parse_bytes(bytes).unsigned_tx().to_js_eip12() as {
+    inputs: { boxId: string; extension: Record<string, string> }[];
+    dataInputs: { boxId: string }[];
+    outputs: EIP12UnsignedTransaction["outputs"];
+  };
+
+  const [inputs, dataInputs] = await Promise.all([
+    Promise.all(
+      unsigned.inputs.map(async (x) => ({ ...(await fetchBox(x.boxId)), extension: x.extension }))
+    ),
+    Promise.all(unsigned.dataInputs.map((x) => fetchBox(x.boxId)))
+  ]);
+
+  return { inputs, dataInputs, outputs: unsigned.outputs };
+}
+
+/**
+ * Notifies the dApp about the submitted transaction, as requested by `replyTo`.
+ */
+export async function replyToErgoPay(replyTo: string, txId: string): Promise<void> {
+  await fetch(replyTo, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ txId })
+  });
+}
+
+async function fetchBox(boxId: string) {
+  const [box] = await chainService.getBoxes({ where: { boxId } });
+  if (!box) throw Error(`Box '${boxId}' not found, it may already be spent.`);
+
+  return box;
+}
@@ -1,9 +1,24 @@
 import { base58check, hex } from "@fleet-sdk/crypto";
 import { ErgoHDKey } from "@fleet-sdk/wallet";
-import { NETWORK } from "@/constants/ergo";
+import { ERGO_COIN_PATH, NETWORK } from "@/constants/ergo";
 
 export type IndexedAddress = { index: number; script: string };
 type PublicKeyOptions = string | { publicKey: string; chainCode: string };
+type MnemonicOptions = { accountIndex?: number; passphrase?: string };
+
+/**
+ * Returns the BIP-44 account level derivation path, e.g. `m/44'/429'/1'`
+ */
+export function getAccountPath(accountIndex = 0): string {
+  return `${ERGO_COIN_PATH}/${accountIndex}'`;
+}
+
+/**
+ * Returns the BIP-44 change level derivation path, e.g. `m/44'/429'/1'/0`
+ */
+export function getDerivationPath(accountIndex = 0): string {
+  return `${getAccountPath(accountIndex)}/0`;
+}
 
 export default class HdKey {
   #change!: ErgoHDKey;
@@ -24,8 +39,15 @@ export default class HdKey {
     return this;
   }
 
-  public static async fromMnemonic(mnemonic: string): Promise<HdKey> {
-    return new this(await ErgoHDKey.fromMnemonic(mnemonic));
+  public static async fromMnemonic(mnemonic: string, options?: MnemonicOptions): Promise<HdKey> {
+    const path = getDerivationPath(options?.accountIndex);
+    return new this(
+      await ErgoHDKey.fromMnemonic(mnemonic, { path, passphrase: options?.passphrase })
+    );
+  }
+
+  public static fromPrivateKey(extendedKey: string): HdKey {
+    return new this(ErgoHDKey.fromExtendedKey(extendedKey));
   }
 
   public static fromPublicKey(key: PublicKeyOptions, path?: string): HdKey {
@@ -45,6 +67,13 @@ export default class HdKey {
     return this.#change.publicKey;
   }
 
+  /**
+   * Base58 encoded extended private key of the change level.
+   */
+  public get extendedPrivateKey(): string {
+    return this.#change.extendedPrivateKey;
+  }
+
   public get chainCode(): Uint8Array {
     return this.#change.chainCode as Uint8Array;
   }
@@ -0,0 +1,161 @@
+import { EIP12UnsignedTransaction, SignedTransaction } from "@fleet-sdk/common";
+import { AddressType, ErgoAddress } from "@fleet-sdk/core";
+import { blake2b256, hex } from "@fleet-sdk/crypto";
+import { serializeTransaction, SigmaByteWriter } from "@fleet-sdk/serializer";
+import { NETWORK } from "@/constants/ergo";
+import { MultisigSettings } from "@/types/internal";
+
+export const MULTISIG_SESSION_PREFIX = "MSIG";
+export const MAX_COSIGNERS = 16;
+
+const SIGMA_PROP_TYPE = 0x08;
+const PROVE_DLOG = 0xcd;
+const THRESHOLD = 0x98;
+
+/**
+ * Public commitments of a cosigner, indexed by input, as serialized by the
+ * `publicHints` field of a sigma-rust `TransactionHintsBag`.
+ */
+export type PublicHints = Record<string, unknown[]>;
+
+/**
+ * State of a signing session, exchanged between cosigners as a file or QR codes.
+ * It doesn't hold any secret, the commitments' randomness stays on each device.
+ */
+export type MultisigSession = {
+  /** Multisig address, so cosigners can open the session with the right wallet. */
+  address: string;
+  transaction: EIP12UnsignedTransaction;
+  /** Public commitments, indexed by cosigner's public key. */
+  commitments: Record<string, PublicHints>;
+  /** Partially signed transaction, once the signing round started. */
+  partial?: SignedTransaction;
+  /** Public keys of the cosigners who already signed `partial`. */
+  signers: string[];
+  /** Public keys left out by the first signer, whose proofs were simulated. */
+  simulated?: string[];
+};
+
+export type Cosigners = {
+  real: string[];
+  simulated: string[];
+};
+
+/**
+ * Builds a constant `atLeast(threshold, Coll(PK(..), ..))` ErgoTree. Public keys
+ * are sorted, so all cosigners get the same address regardless of the order they
+ * were entered in.
+ */
+export function buildMultisigErgoTree(threshold: number, publicKeys: string[]): string {
+  const keys = [...publicKeys].sort();
+  if (new Set(keys).size !== keys.length) throw Error("Duplicate cosigner keys.");
+  if (keys.length < 2 || keys.length > MAX_COSIGNERS) {
+    throw Error(`A multisig wallet must have between 2 and ${MAX_COSIGNERS} cosigners.`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keys.length) {
+    throw Error("Invalid signature threshold.");
+  }
+
+  const writer = new SigmaByteWriter(5 + keys.length * 34)
+    .write(0x00) // ErgoTree header, v0 with no constant segregation
+    .write(SIGMA_PROP_TYPE)
+    .write(THRESHOLD)
+    .writeUInt(threshold)
+    .writeUInt(keys.length);
+
+  for (const key of keys) writer.write(PROVE_DLOG).writeHex(key);
+
+  return hex.encode(writer.toBytes());
+}
+
+export function getMultisigAddress(threshold: number, publicKeys: string[]): string {
+  return ErgoAddress.fromErgoTree(buildMultisigErgoTree(threshold, publicKeys), NETWORK).encode();
+}
+
+/**
+ * Extracts the public key of a P2PK address, which is how cosigners share their key.
+ */
+export function extractPublicKey(address: string): string {
+  const parsed = ErgoAddress.fromBase58(address.trim());
+  if (parsed.type !== AddressType.P2PK) throw Error("Only P2PK addresses can be cosigners.");
+
+  return hex.encode(parsed.getPublicKeys()[0]);
+}
+
+export function getTransactionId(transaction: EIP12UnsignedTransaction): string {
+  return hex.encode(blake2b256(serializeTransaction(transaction).toBytes()));
+}
+
+/**
+ * Merges a session received from a cosigner into the local one. Commitments are
+ * combined and the most advanced partial signature is kept.
+ */
+export function mergeSessions(
+  current: MultisigSession,
+  incoming: MultisigSession
+): MultisigSession {
+  if (
+    current.address !== incoming.address ||
+    getTransactionId(current.transaction) !== getTransactionId(incoming.transaction)
+  ) {
+    throw Error("The session belongs to a different transaction.");
+  }
+
+  const advanced = incoming.signers.length > current.signers.length ? incoming : current;
+  return {
+    ...current,
+    commitments: { ...current.commitments, ...incoming.commitments },
+    partial: advanced.partial,
+    signers: advanced.signers,
+    simulated: advanced.simulated
+  };
+}
+
+/**
+ * Picks the cosigners taking part in the signature. The first signer picks exactly
+ * `threshold` committed cosigners, itself included, so the proofs of the others are
+ * simulated the same way by every following signer.
+ */
+export function selectCosigners(
+  session: MultisigSession,
+  ownKey: string,
+  settings: Pick<MultisigSettings, "threshold" | "publicKeys">
+): Cosigners {
+  const { threshold, publicKeys } = settings;
+  if (session.signers.includes(ownKey)) throw Error("This cosigner already signed.");
+  if (!session.commitments[ownKey]) throw Error("This cosigner has no commitment.");
+
+  let real: string[];
+  if (session.partial && session.simulated) {
+    real = publicKeys.filter((key) => !session.simulated?.includes(key));
+    if (!real.includes(ownKey)) throw Error("This cosigner was not selected to sign.");
+  } else {
+    const others = publicKeys.filter((key) => key !== ownKey && session.commitments[key]);
+    real = [ownKey, ...others].slice(0, threshold);
+  }
+
+  if (real.length < threshold) throw Error("Not enough commitments to start signing.");
+  return { real, simulated: publicKeys.filter((key) => !real.includes(key)) };
+}
+
+export function isSessionComplete(session: MultisigSession, threshold: number): boolean {
+  return !!session.partial && session.signers.length >= threshold;
+}
+
+export function encodeSession(session: MultisigSession): string {
+  return JSON.stringify(session);
+}
+
+export function decodeSession(data: string): MultisigSession {
+  const session = JSON.parse(data) as MultisigSession;
+  if (
+    typeof session?.address !== "string" ||
+    !session.transaction?.inputs ||
+    typeof session.commitments !== "object" ||
+    !Array.isArray(session.signers)
+  ) {
+    throw Error("Invalid multisig session.");
+  }
+
+  return session;
+}
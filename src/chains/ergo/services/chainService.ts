@@ -0,0 +1,197 @@
+import type {
+  BoxSource,
+  ChainProviderBox,
+  ChainProviderConfirmedTransaction,
+  ChainProviderUnconfirmedTransaction,
+  TransactionEvaluationResult,
+  TransactionEvaluationSuccess
+} from "@fleet-sdk/blockchain-providers";
+import { BlockHeader, SignedTransaction } from "@fleet-sdk/common";
+import { isEqual } from "es-toolkit";
+import { storage } from "webextension-polyfill";
+import { utxosDbService } from "@/database/utxosDbService";
+import { IAssetInfo } from "@/types/database";
+import { AddressInfo, graphQLService } from "./graphQlService";
+import { BackendHealth, getEndpoints, getStoredHealth, HEALTH_STORAGE_KEY } from "./healthMonitor";
+import { NodeBoxWhere, nodeService } from "./nodeService";
+
+export type ChainBackend = "graphql" | "node";
+
+export type ChainBackendSettings = {
+  chainBackend: ChainBackend;
+  graphQLServer: string;
+  nodeServer: string;
+  backupGraphQLServers: string[];
+  backupNodeServers: string[];
+};
+
+type BoxQuery = { where: NodeBoxWhere; from?: BoxSource; take?: number };
+type AddressesQuery = { where: { addresses: string[]; onlyRelevantOutputs?: boolean } };
+
+interface ChainProvider {
+  getAddressesInfo(addresses: string[]): Promise<AddressInfo[]>;
+  getHeight(): Promise<number | undefined>;
+  checkBoxesOlderThan(height: number, addresses: string[]): Promise<boolean>;
+  getAssetsMetadata(tokenIds: string[]): Promise<IAssetInfo[] | undefined>;
+  getBoxes(query: BoxQuery): Promise<ChainProviderBox<string>[]>;
+  streamBoxes(query: BoxQuery): AsyncIterable<ChainProviderBox<string>[]>;
+  getUnconfirmedTransactions(
+    query: AddressesQuery
+  ): Promise<ChainProviderUnconfirmedTransaction<string>[]>;
+  streamConfirmedTransactions(
+    query: AddressesQuery
+  ): AsyncGenerator<ChainProviderConfirmedTransaction<string>[]>;
+  getHeaders(query: { take: number }): Promise<BlockHeader[]>;
+  submitTransaction(signedTransaction: SignedTransaction): Promise<TransactionEvaluationResult>;
+  mempoolTransactionsLookup(txIds: string[]): Promise<Set<string>>;
+  getMempoolFeeRates(take: number): Promise<number[]>;
+}
+
+const UTXO_NOT_FOUND_ERROR =
+  "Malformed transaction: Every input of the transaction should be in UTXO.";
+
+/**
+ * Routes chain reads and submissions to the backend selected in the settings,
+ * either a GraphQL server or an Ergo node REST API with extra index enabled.
+ */
+class ChainService {
+  #backend: ChainBackend = "graphql";
+  #endpoints: string[] = [];
+
+  constructor() {
+    storage.onChanged.addListener((changes, area) => {
+      const change = changes[HEALTH_STORAGE_KEY];
+      if (area !== "local" || !change?.newValue) return;
+
+      this.#route(JSON.parse(change.newValue as string));
+    });
+  }
+
+  get backend(): ChainBackend {
+    return this.#backend;
+  }
+
+  get #provider(): ChainProvider {
+    return this.#backend === "node" ? nodeService : graphQLService;
+  }
+
+  configure(settings: ChainBackendSettings): ChainService {
+    this.#backend = settings.chainBackend;
+    this.#endpoints = getEndpoints(settings);
+    graphQLService.setUrl(settings.graphQLServer);
+    nodeService.setUrl(settings.nodeServer);
+    getStoredHealth().then((health) => this.#route(health));
+
+    return this;
+  }
+
+  /**
+   * Switches the selected backend to the endpoint elected by the health monitor.
+   * Health checked against other endpoints, or with another primary one, is ignored
+   * so a stale election doesn't override the server just picked in the settings.
+   */
+  #route(health: BackendHealth) {
+    const { backend, activeUrl, endpoints } = health;
+    if (backend !== this.#backend || !activeUrl) return;
+    if (
+      !isEqual(
+        endpoints.map((x) => x.url),
+        this.#endpoints
+      )
+    )
+      return;
+
+    if (backend === "node") nodeService.setUrl(activeUrl);
+    else graphQLService.setUrl(activeUrl);
+  }
+
+  getAddressesInfo(addresses: string[]): Promise<AddressInfo[]> {
+    return this.#provider.getAddressesInfo(addresses);
+  }
+
+  getHeight(): Promise<number | undefined> {
+    return this.#provider.getHeight();
+  }
+
+  checkBoxesOlderThan(height: number, addresses: string[]): Promise<boolean> {
+    return this.#provider.checkBoxesOlderThan(height, addresses);
+  }
+
+  getAssetsMetadata(tokenIds: string[]): Promise<IAssetInfo[] | undefined> {
+    return this.#provider.getAssetsMetadata(tokenIds);
+  }
+
+  getBoxes(query: BoxQuery): Promise<ChainProviderBox<string>[]> {
+    return this.#provider.getBoxes(query);
+  }
+
+  streamBoxes(query: BoxQuery): AsyncIterable<ChainProviderBox<string>[]> {
+    return this.#provider.streamBoxes(query);
+  }
+
+  getUnconfirmedTransactions(
+    query: AddressesQuery
+  ): Promise<ChainProviderUnconfirmedTransaction<string>[]> {
+    return this.#provider.getUnconfirmedTransactions(query);
+  }
+
+  streamConfirmedTransactions(
+    query: AddressesQuery
+  ): AsyncGenerator<ChainProviderConfirmedTransaction<string>[]> {
+    return this.#provider.streamConfirmedTransactions(query);
+  }
+
+  getHeaders(query: { take: number }): Promise<BlockHeader[]> {
+    return this.#provider.getHeaders(query);
+  }
+
+  mempoolTransactionsLookup(txIds: string[]): Promise<Set<string>> {
+    return this.#provider.mempoolTransactionsLookup(txIds);
+  }
+
+  /**
+   * Returns the fee paid per byte, in nanoErgs, by up to `take` transactions
+   * currently waiting in the mempool.
+   */
+  getMempoolFeeRates(take = 100): Promise<number[]> {
+    return this.#provider.getMempoolFeeRates(take);
+  }
+
+  async submitTransaction(
+    signedTransaction: SignedTransaction,
+    walletId?: number
+  ): Promise<TransactionEvaluationSuccess> {
+    let result!: TransactionEvaluationResult;
+    const shouldRetry = await utxosDbService.containsAtLeastOneOf(
+      signedTransaction.inputs.map((i) => i.boxId)
+    );
+
+    if (shouldRetry) {
+      let attempts = 5;
+      let delay = 500;
+      while (attempts > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        result = await this.#provider.submitTransaction(signedTransaction);
+
+        if (
+          result.success ||
+          (!result.success && !result.message.startsWith(UTXO_NOT_FOUND_ERROR))
+        ) {
+          break;
+        }
+
+        attempts--;
+        delay *= 2;
+      }
+    } else {
+      result = await this.#provider.submitTransaction(signedTransaction);
+    }
+
+    if (!result.success) throw new Error(result.message);
+    else if (walletId) utxosDbService.addFromTx(signedTransaction, walletId);
+
+    return result;
+  }
+}
+
+export const chainService = new ChainService();
@@ -1,19 +1,13 @@
 import { Address, Info, State, Token } from "@ergo-graphql/types";
-import {
-  createGqlOperation,
-  ErgoGraphQLProvider,
-  TransactionEvaluationResult,
-  TransactionEvaluationSuccess
-} from "@fleet-sdk/blockchain-providers";
-import { chunk, isEmpty, SignedTransaction, some } from "@fleet-sdk/common";
+import { createGqlOperation, ErgoGraphQLProvider } from "@fleet-sdk/blockchain-providers";
+import { chunk, isEmpty, some } from "@fleet-sdk/common";
+import { FEE_CONTRACT } from "@fleet-sdk/core";
 import { hex, utf8 } from "@fleet-sdk/crypto";
 import { SConstant } from "@fleet-sdk/serializer";
-import { storage } from "webextension-polyfill";
 import { safeSigmaDecode } from "@/chains/ergo/serialization";
 import { bn } from "@/common/bigNumber";
 import { log } from "@/common/logger";
 import { ERG_TOKEN_ID, MAINNET } from "@/constants/ergo";
-import { utxosDbService } from "@/database/utxosDbService";
 import { Registers } from "@/types/connector";
 import { IAssetInfo } from "@/types/database";
 import { AssetStandard, AssetSubtype, AssetType } from "@/types/internal";
@@ -30,6 +24,13 @@ export type AddressInfo = {
   assets: AssetInfo[];
 };
 
+export type TokenInfo = Pick<
+  Token,
+  "tokenId" | "boxId" | "emissionAmount" | "name" | "description" | "decimals" | "type"
+> & {
+  box?: Pick<NonNullable<Token["box"]>, "transactionId" | "additionalRegisters"> | null;
+};
+
 export type UnspentBoxesInfo = {
   oldest: number | undefined;
   count: number;
@@ -38,7 +39,7 @@ export type UnspentBoxesInfo = {
 export const MIN_SERVER_VERSION = [0, 4, 4];
 const MAX_PARAMS_PER_REQUEST = 20;
 
-const FALLBACK_GRAPHQL_SERVERS = MAINNET
+export const FALLBACK_GRAPHQL_SERVERS = MAINNET
   ? ["https://gql.ergoplatform.com/", "https://graphql.erg.zelcore.io/"]
   : [];
 
@@ -47,28 +48,39 @@ export const DEFAULT_SERVER_URL = MAINNET
   : "https://gql-testnet.ergoplatform.com/";
 
 const checkServerInfo = createGqlOperation<{ info: Info; state: State }>(
-  "query info { info { version } state { network } }"
+  "query info { info { version } state { network height } }"
 );
 
-export async function getServerInfo(url: string): Promise<{ network: string; version: string }> {
+export type ServerInfo = { network: string; version: string; height: number };
+
+export async function getServerInfo(url: string): Promise<ServerInfo> {
   const response = await checkServerInfo(undefined, url);
   if (!response.data) throw new Error(`No data returned from ${url}.`);
 
   return {
     network: response.data.state.network,
-    version: response.data.info.version
+    version: response.data.info.version,
+    height: response.data.state.height
   };
 }
 
+export function isServerVersionSupported(version: string): boolean {
+  const [major, minor] = version.split(".");
+
+  return (
+    Number.parseInt(major, 10) === MIN_SERVER_VERSION[0] &&
+    Number.parseInt(minor, 10) >= MIN_SERVER_VERSION[1]
+  );
+}
+
+export function isExpectedNetwork(network: string): boolean {
+  return MAINNET ? network === "mainnet" : network === "testnet";
+}
+
 export async function validateServerVersion(url: string): Promise<boolean> {
   try {
     const response = await getServerInfo(url);
-    const [major, minor] = response.version.split(".");
-
-    return (
-      Number.parseInt(major, 10) === MIN_SERVER_VERSION[0] &&
-      Number.parseInt(minor, 10) >= MIN_SERVER_VERSION[1]
-    );
+    return isServerVersionSupported(response.version);
   } catch {
     return false;
   }
@@ -77,8 +89,7 @@ export async function validateServerVersion(url: string): Promise<boolean> {
 export async function validateServerNetwork(url: string): Promise<boolean> {
   try {
     const response = await getServerInfo(url);
-
-    return MAINNET ? response.network === "mainnet" : response.network === "testnet";
+    return isExpectedNetwork(response.network);
   } catch {
     return false;
   }
@@ -88,6 +99,7 @@ const ADDRESS_INFO_QUERY = `query addresses($addresses: [String!]!) { addresses(
 const CURRENT_HEIGHT_QUERY = `query currentHeight { blockHeaders(take: 1) { height } }`;
 const OLD_BOXES_CHECK_QUERY = `query oldBoxesCheck($maxHeight: Int, $addresses: [String!]) { boxes( maxHeight: $maxHeight addresses: $addresses heightType: creation spent: false take: 1 ) { creationHeight } }`;
 const TOKEN_METADATA_QUERY = `query Tokens($tokenIds: [String!]) { tokens(tokenIds: $tokenIds) { tokenId type emissionAmount name description decimals boxId box { transactionId additionalRegisters } } }`;
+const MEMPOOL_FEES_QUERY = `query mempoolFees($take: Int) { mempool { transactions(take: $take) { size outputs { ergoTree value } } } }`;
 const MEMPOOL_TXS_QUERY = `query mempoolTxCheck($transactionIds: [String!]) { mempool { transactions(transactionIds: $transactionIds) { transactionId } } }`;
 
 type AddressInfoResponse = { addresses: Address[] };
@@ -95,6 +107,9 @@ type CurrentHeightResponse = { blockHeaders: { height: number }[] };
 type OldBoxesCheckResponse = { boxes: { creationHeight: number }[] };
 type TokensResponse = { tokens: Token[] };
 type MempoolTransactionsResponse = { mempool: { transactions: { transactionId: string }[] } };
+type MempoolFeesResponse = {
+  mempool: { transactions: { size: number; outputs: { ergoTree: string; value: string }[] }[] };
+};
 
 class GraphQLService extends ErgoGraphQLProvider<string> {
   #getAddressInfo;
@@ -102,6 +117,7 @@ class GraphQLService extends ErgoGraphQLProvider<string> {
   #checkOldBoxes;
   #getTokenMetadata;
   #checkMempoolTxs;
+  #getMempoolFees;
 
   constructor() {
     super({
@@ -110,19 +126,13 @@ class GraphQLService extends ErgoGraphQLProvider<string> {
     });
 
     this.setBigIntMapper((value) => value);
-    this.#loadServerUrl();
 
     this.#getAddressInfo = this.createOperation<AddressInfoResponse>(ADDRESS_INFO_QUERY);
     this.#getCurrentHeight = this.createOperation<CurrentHeightResponse>(CURRENT_HEIGHT_QUERY);
     this.#checkOldBoxes = this.createOperation<OldBoxesCheckResponse>(OLD_BOXES_CHECK_QUERY);
     this.#getTokenMetadata = this.createOperation<TokensResponse>(TOKEN_METADATA_QUERY);
     this.#checkMempoolTxs = this.createOperation<MempoolTransactionsResponse>(MEMPOOL_TXS_QUERY);
-  }
-
-  #loadServerUrl() {
-    storage.local
-      .get("settings")
-      .then((s) => this.setUrl((s.graphQLServer as string) ?? DEFAULT_SERVER_URL));
+    this.#getMempoolFees = this.createOperation<MempoolFeesResponse>(MEMPOOL_FEES_QUERY);
   }
 
   async getAddressesInfo(addresses: string[]): Promise<AddressInfo[]> {
@@ -173,45 +183,6 @@ class GraphQLService extends ErgoGraphQLProvider<string> {
       .filter((assetInfo) => assetInfo) as IAssetInfo[];
   }
 
-  override async submitTransaction(
-    signedTransaction: SignedTransaction,
-    walletId?: number
-  ): Promise<TransactionEvaluationSuccess> {
-    let result!: TransactionEvaluationResult;
-    const shouldRetry = await utxosDbService.containsAtLeastOneOf(
-      signedTransaction.inputs.map((i) => i.boxId)
-    );
-
-    if (shouldRetry) {
-      let attempts = 5;
-      let delay = 500;
-      while (attempts > 0) {
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        result = await super.submitTransaction(signedTransaction);
-
-        if (
-          result.success ||
-          (!result.success &&
-            !result.message.startsWith(
-              "Malformed transaction: Every input of the transaction should be in UTXO."
-            ))
-        ) {
-          break;
-        }
-
-        attempts--;
-        delay *= 2;
-      }
-    } else {
-      result = await super.submitTransaction(signedTransaction);
-    }
-
-    if (!result.success) throw new Error(result.message);
-    else if (walletId) utxosDbService.addFromTx(signedTransaction, walletId);
-
-    return result;
-  }
-
   async mempoolTransactionsLookup(txIds: string[]): Promise<Set<string>> {
     const set = new Set<string>();
     const chunks = chunk(txIds, MAX_PARAMS_PER_REQUEST);
@@ -224,6 +195,11 @@ class GraphQLService extends ErgoGraphQLProvider<string> {
 
     return set;
   }
+
+  async getMempoolFeeRates(take: number): Promise<number[]> {
+    const { data } = await this.#getMempoolFees({ take });
+    return (data?.mempool?.transactions ?? []).map((tx) => feePerByte(tx.size, tx.outputs));
+  }
 }
 
 export const graphQLService = new GraphQLService();
@@ -248,7 +224,12 @@ function addressInfoMapper(gqlAddressInfo: Address): AddressInfo {
   return mapped;
 }
 
-function parseEIP4Asset(tokenInfo: Token): IAssetInfo {
+export function feePerByte(size: number, outputs: { ergoTree: string; value: string }[]): number {
+  const fee = outputs.find((x) => x.ergoTree === FEE_CONTRACT)?.value ?? 0;
+  return size > 0 ? Number(fee) / size : 0;
+}
+
+export function parseEIP4Asset(tokenInfo: TokenInfo): IAssetInfo {
   if (!tokenInfo.box) throw new Error("Asset box info is missing");
 
   const registers = tokenInfo.box.additionalRegisters as Registers;
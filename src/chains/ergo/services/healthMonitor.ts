@@ -0,0 +1,141 @@
+import { uniq } from "@fleet-sdk/common";
+import { orderBy } from "es-toolkit";
+import { storage } from "webextension-polyfill";
+import type { ChainBackend, ChainBackendSettings } from "./chainService";
+import { getServerInfo, isExpectedNetwork, isServerVersionSupported } from "./graphQlService";
+import { getNodeInfo, isNodeSupported } from "./nodeService";
+
+export const HEALTH_STORAGE_KEY = "backendHealth";
+export const MAX_HEIGHT_LAG = 3; // blocks
+const PROBE_TIMEOUT = 5000; // five seconds
+
+export type EndpointHealth = {
+  url: string;
+  online: boolean;
+  compatible: boolean;
+  latency?: number;
+  version?: string;
+  network?: string;
+  height?: number;
+};
+
+export type BackendHealth = {
+  backend: ChainBackend;
+  endpoints: EndpointHealth[];
+  activeUrl?: string;
+  tip: number;
+  checkedAt: number;
+};
+
+export const EMPTY_HEALTH: BackendHealth = {
+  backend: "graphql",
+  endpoints: [],
+  tip: 0,
+  checkedAt: 0
+};
+
+let checking: { key: string; result: Promise<BackendHealth> } | undefined;
+
+/**
+ * Probes every endpoint configured for the selected backend, stores the results
+ * and elects the healthiest one, which is picked up by `chainService` in every
+ * extension context. A check already running for other endpoints is not reused.
+ */
+export function checkBackendHealth(settings: ChainBackendSettings): Promise<BackendHealth> {
+  const key = JSON.stringify([settings.chainBackend, getEndpoints(settings)]);
+  if (checking?.key === key) return checking.result;
+
+  const result = runCheck(settings).finally(() => {
+    if (checking?.result === result) checking = undefined;
+  });
+  checking = { key, result };
+
+  return result;
+}
+
+export function getEndpoints(settings: ChainBackendSettings): string[] {
+  return settings.chainBackend === "node"
+    ? uniq([settings.nodeServer, ...settings.backupNodeServers])
+    : uniq([settings.graphQLServer, ...settings.backupGraphQLServers]);
+}
+
+export async function getStoredHealth(): Promise<BackendHealth> {
+  const stored = await storage.local.get(HEALTH_STORAGE_KEY);
+  const raw = stored[HEALTH_STORAGE_KEY] as string | undefined;
+
+  return raw ? (JSON.parse(raw) as BackendHealth) : EMPTY_HEALTH;
+}
+
+/**
+ * Elects the healthiest endpoint: reachable and compatible ones first, then those
+ * within `MAX_HEIGHT_LAG` blocks of the tip, then the fastest to respond.
+ */
+export function pickHealthiest(endpoints: EndpointHealth[], tip: number): string | undefined {
+  const candidates = endpoints.filter((x) => x.online && x.compatible && x.height);
+  const sorted = orderBy(
+    candidates,
+    [(x) => tip - (x.height ?? 0) > MAX_HEIGHT_LAG, (x) => x.latency ?? Infinity],
+    ["asc", "asc"]
+  );
+
+  return sorted[0]?.url;
+}
+
+async function runCheck(settings: ChainBackendSettings): Promise<BackendHealth> {
+  const endpoints = await Promise.all(
+    getEndpoints(settings).map((url) => probe(settings.chainBackend, url))
+  );
+
+  const tip = Math.max(0, ...endpoints.filter((x) => x.compatible).map((x) => x.height ?? 0));
+  const health: BackendHealth = {
+    backend: settings.chainBackend,
+    endpoints,
+    activeUrl: pickHealthiest(endpoints, tip),
+    tip,
+    checkedAt: Date.now()
+  };
+
+  await storage.local.set({ [HEALTH_STORAGE_KEY]: JSON.stringify(health) });
+  return health;
+}
+
+async function probe(backend: ChainBackend, url: string): Promise<EndpointHealth> {
+  const start = Date.now();
+
+  try {
+    if (backend === "node") {
+      const info = await withTimeout(getNodeInfo(url));
+      return {
+        url,
+        online: true,
+        compatible: isNodeSupported(info) && isExpectedNetwork(info.network),
+        latency: Date.now() - start,
+        version: info.appVersion,
+        network: info.network,
+        height: info.fullHeight ?? undefined
+      };
+    }
+
+    const info = await withTimeout(getServerInfo(url));
+    return {
+      url,
+      online: true,
+      compatible: isServerVersionSupported(info.version) && isExpectedNetwork(info.network),
+      latency: Date.now() - start,
+      version: info.version,
+      network: info.network,
+      height: info.height
+    };
+  } catch {
+    return { url, online: false, compatible: false };
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error("Endpoint probe timed out.")), PROBE_TIMEOUT)
+    )
+  ]);
+}
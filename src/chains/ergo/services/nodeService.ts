@@ -0,0 +1,516 @@
+import type {
+  BoxSource,
+  ChainProviderBox,
+  ChainProviderConfirmedTransaction,
+  ChainProviderUnconfirmedTransaction,
+  TransactionEvaluationResult
+} from "@fleet-sdk/blockchain-providers";
+import { BlockHeader, Box, chunk, isEmpty, SignedTransaction } from "@fleet-sdk/common";
+import { ErgoAddress } from "@fleet-sdk/core";
+import { sortBy, uniqBy } from "es-toolkit";
+import { bn } from "@/common/bigNumber";
+import { log } from "@/common/logger";
+import { ERG_TOKEN_ID, MAINNET } from "@/constants/ergo";
+import { IAssetInfo } from "@/types/database";
+import { AssetStandard } from "@/types/internal";
+import { AddressInfo, feePerByte, isExpectedNetwork, parseEIP4Asset } from "./graphQlService";
+
+export const MIN_NODE_VERSION = [5, 0, 0];
+const PAGE_SIZE = 100;
+const MAX_PARAMS_PER_REQUEST = 20;
+
+export const DEFAULT_NODE_URL = MAINNET ? "http://127.0.0.1:9053/" : "http://127.0.0.1:9052/";
+
+// node returns amounts as JSON numbers, which can exceed the safe integer range
+const AMOUNT_KEYS = new Set(["value", "amount", "nanoErgs", "emissionAmount"]);
+
+export type NodeInfo = {
+  appVersion: string;
+  network: string;
+  fullHeight: number | null;
+  isExplorer?: boolean;
+};
+
+type NodeAsset = { tokenId: string; amount: string };
+
+type NodeBox = {
+  boxId: string;
+  transactionId: string;
+  index: number;
+  value: string;
+  ergoTree: string;
+  creationHeight: number;
+  assets: NodeAsset[];
+  additionalRegisters: Box["additionalRegisters"];
+};
+
+type NodeTransaction = {
+  id: string;
+  inputs: { boxId: string; spendingProof: { proofBytes: string; extension: object } }[];
+  dataInputs: { boxId: string }[];
+  outputs: NodeBox[];
+};
+
+type IndexedTransaction = Omit<NodeTransaction, "inputs"> & {
+  inputs: (NodeBox & { spendingProof: string })[];
+  blockId: string;
+  inclusionHeight: number;
+  timestamp: number;
+  index: number;
+};
+
+type IndexedToken = {
+  id: string;
+  boxId: string;
+  emissionAmount: string;
+  name: string | null;
+  description: string | null;
+  decimals: number | null;
+};
+
+type Balance = { nanoErgs: string; tokens: NodeAsset[] };
+
+type NodeError = { error: number; reason: string; detail: string };
+
+export type NodeBoxWhere = {
+  addresses?: (string | ErgoAddress)[];
+  ergoTrees?: string[];
+  ergoTree?: string;
+  tokenId?: string;
+  boxId?: string;
+};
+
+export type NodeBoxQuery = { where: NodeBoxWhere; from?: BoxSource };
+
+type RequestOptions = {
+  method?: "GET" | "POST";
+  query?: Record<string, string | number>;
+  body?: unknown;
+  url?: string;
+};
+
+export async function getNodeInfo(url: string): Promise<NodeInfo> {
+  const info = await nodeService.request<NodeInfo>("info", { url });
+  if (!info) throw new Error(`No data returned from ${url}.`);
+
+  return info;
+}
+
+export function isNodeSupported(info: NodeInfo): boolean {
+  const [major, minor, patch] = info.appVersion.split(".").map((x) => Number.parseInt(x, 10));
+
+  // extra index is required for address and token lookups
+  return (
+    !!info.isExplorer &&
+    (major > MIN_NODE_VERSION[0] ||
+      (major === MIN_NODE_VERSION[0] &&
+        (minor > MIN_NODE_VERSION[1] ||
+          (minor === MIN_NODE_VERSION[1] && patch >= MIN_NODE_VERSION[2]))))
+  );
+}
+
+export async function validateNodeVersion(url: string): Promise<boolean> {
+  try {
+    const info = await getNodeInfo(url);
+    return isNodeSupported(info);
+  } catch {
+    return false;
+  }
+}
+
+export async function validateNodeNetwork(url: string): Promise<boolean> {
+  try {
+    const info = await getNodeInfo(url);
+    return isExpectedNetwork(info.network);
+  } catch {
+    return false;
+  }
+}
+
+class NodeService {
+  #url = DEFAULT_NODE_URL;
+
+  setUrl(url: string): NodeService {
+    this.#url = url;
+    return this;
+  }
+
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const url = new URL(path, options.url ?? this.#url);
+    if (options.query) {
+      for (const key in options.query) url.searchParams.append(key, String(options.query[key]));
+    }
+
+    const response = await fetch(url, {
+      method: options.method ?? "GET",
+      headers: { "Content-Type": "application/json" },
+      body: serializeBody(options.body)
+    });
+
+    const data = parseResponse(await response.text());
+    if (!response.ok) throw new Error((data as NodeError)?.detail ?? response.statusText);
+
+    return data as T;
+  }
+
+  async getAddressesInfo(addresses: string[]): Promise<AddressInfo[]> {
+    return Promise.all(addresses.map((address) => this.#getAddressInfo(address)));
+  }
+
+  async #getAddressInfo(address: string): Promise<AddressInfo> {
+    const { confirmed } = await this.request<{ confirmed: Balance }>("blockchain/balance", {
+      method: "POST",
+      body: address
+    });
+
+    const info: AddressInfo = {
+      address,
+      used: confirmed.tokens.length > 0 || bn(confirmed.nanoErgs).gt(0),
+      assets: confirmed.tokens.map((t) => ({ tokenId: t.tokenId, confirmedAmount: t.amount }))
+    };
+
+    if (bn(confirmed.nanoErgs).gt(0)) {
+      info.assets.push({ tokenId: ERG_TOKEN_ID, confirmedAmount: confirmed.nanoErgs });
+    }
+
+    if (!info.used) {
+      const { total } = await this.request<{ total: number }>("blockchain/transaction/byAddress", {
+        method: "POST",
+        query: { offset: 0, limit: 1 },
+        body: address
+      });
+
+      info.used = total > 0;
+    }
+
+    return info;
+  }
+
+  async getHeight(): Promise<number | undefined> {
+    try {
+      const info = await this.request<NodeInfo>("info");
+      return info.fullHeight ?? undefined;
+    } catch (e) {
+      log.error("Failed to fetch current height", e);
+    }
+  }
+
+  async checkBoxesOlderThan(height: number, addresses: string[]): Promise<boolean> {
+    for (const address of addresses) {
+      const [oldest] = await this.request<NodeBox[]>("blockchain/box/unspent/byAddress", {
+        method: "POST",
+        query: { offset: 0, limit: 1, sortDirection: "asc" },
+        body: address
+      });
+
+      if (oldest && oldest.creationHeight <= height) return true;
+    }
+
+    return false;
+  }
+
+  async getAssetsMetadata(tokenIds: string[]): Promise<IAssetInfo[] | undefined> {
+    const metadata: IAssetInfo[] = [];
+
+    try {
+      for (const ids of chunk(tokenIds, MAX_PARAMS_PER_REQUEST)) {
+        const tokens = await this.request<IndexedToken[]>("blockchain/tokens", {
+          method: "POST",
+          body: ids
+        });
+        if (isEmpty(tokens)) continue;
+
+        const boxes = await Promise.all(
+          tokens.map((t) => this.request<NodeBox>(`blockchain/box/byId/${t.boxId}`))
+        );
+
+        for (let i = 0; i < tokens.length; i++) {
+          const token = tokens[i];
+          const box = boxes[i];
+
+          metadata.push(
+            parseEIP4Asset({
+              tokenId: token.id,
+              boxId: token.boxId,
+              emissionAmount: token.emissionAmount,
+              name: token.name,
+              description: token.description,
+              decimals: token.decimals,
+              type: isEIP4(box) ? AssetStandard.EIP4 : undefined,
+              box
+            })
+          );
+        }
+      }
+    } catch (e) {
+      log.error("Failed to fetch metadata", tokenIds, e);
+      return;
+    }
+
+    return metadata;
+  }
+
+  async getBoxes(query: NodeBoxQuery): Promise<ChainProviderBox<string>[]> {
+    const { where } = query;
+    const from = query.from ?? "blockchain+mempool";
+    const ergoTrees = getErgoTrees(where);
+
+    let confirmed: ChainProviderBox<string>[] = [];
+    let unconfirmed: ChainProviderBox<string>[] = [];
+    const spent = new Set<string>();
+
+    if (ergoTrees.length) {
+      for (const ergoTree of ergoTrees) {
+        if (from !== "mempool") {
+          const boxes = await this.#fetchPages<NodeBox>(
+            "blockchain/box/unspent/byErgoTree",
+            ergoTree
+          );
+          confirmed.push(...boxes.map((b) => mapBox(b, true)));
+        }
+
+        if (from !== "blockchain") {
+          const txs = await this.#fetchPages<NodeTransaction>(
+            "transactions/unconfirmed/byErgoTree",
+            ergoTree
+          );
+
+          for (const tx of txs) {
+            for (const input of tx.inputs) spent.add(input.boxId);
+            for (const output of tx.outputs) {
+              if (output.ergoTree === ergoTree) unconfirmed.push(mapBox(output, false));
+            }
+          }
+        }
+      }
+    } else if (where.boxId) {
+      const boxes = await this.request<NodeBox[]>("utxo/withPool/byIds", {
+        method: "POST",
+        body: [where.boxId]
+      });
+      confirmed = boxes.map((b) => mapBox(b, true));
+    } else if (where.tokenId) {
+      if (from !== "mempool") {
+        const boxes = await this.#fetchPages<NodeBox>(
+          `blockchain/box/unspent/byTokenId/${where.tokenId}`
+        );
+        confirmed = boxes.map((b) => mapBox(b, true));
+      }
+
+      if (from !== "blockchain") {
+        const boxes = await this.request<NodeBox[]>(
+          `transactions/unconfirmed/outputs/byTokenId/${where.tokenId}`
+        );
+        unconfirmed = boxes.map((b) => mapBox(b, false));
+      }
+    }
+
+    let boxes = uniqBy([...confirmed, ...unconfirmed], (b) => b.boxId);
+    if (spent.size) boxes = boxes.filter((b) => !spent.has(b.boxId));
+    if (where.tokenId && ergoTrees.length) {
+      boxes = boxes.filter((b) => b.assets.some((a) => a.tokenId === where.tokenId));
+    }
+
+    return boxes;
+  }
+
+  async *streamBoxes(query: NodeBoxQuery): AsyncGenerator<ChainProviderBox<string>[]> {
+    yield await this.getBoxes(query);
+  }
+
+  async getUnconfirmedTransactions(query: {
+    where: { addresses: string[] };
+  }): Promise<ChainProviderUnconfirmedTransaction<string>[]> {
+    const txs: NodeTransaction[] = [];
+    for (const ergoTree of getErgoTrees(query.where)) {
+      txs.push(
+        ...(await this.#fetchPages<NodeTransaction>(
+          "transactions/unconfirmed/byErgoTree",
+          ergoTree
+        ))
+      );
+    }
+
+    const unique = uniqBy(txs, (tx) => tx.id);
+    const inputIds = unique.flatMap((tx) => tx.inputs.map((i) => i.boxId));
+    const inputs = new Map<string, NodeBox>();
+    for (const ids of chunk(inputIds, MAX_PARAMS_PER_REQUEST)) {
+      const boxes = await this.request<NodeBox[]>("utxo/withPool/byIds", {
+        method: "POST",
+        body: ids
+      });
+
+      for (const box of boxes) inputs.set(box.boxId, box);
+    }
+
+    const timestamp = Date.now();
+    return unique.map((tx) => ({
+      transactionId: tx.id,
+      inputs: tx.inputs
+        .filter((i) => inputs.has(i.boxId))
+        .map((i) => ({
+          ...mapBox(inputs.get(i.boxId) as NodeBox),
+          spendingProof: i.spendingProof
+        })),
+      dataInputs: tx.dataInputs,
+      outputs: tx.outputs.map((o) => mapBox(o)),
+      confirmed: false,
+      timestamp
+    })) as ChainProviderUnconfirmedTransaction<string>[];
+  }
+
+  async *streamConfirmedTransactions(query: {
+    where: { addresses: string[] };
+  }): AsyncGenerator<ChainProviderConfirmedTransaction<string>[]> {
+    const seen = new Set<string>();
+    let addresses = query.where.addresses;
+    let offset = 0;
+
+    while (addresses.length) {
+      const pages = await Promise.all(
+        addresses.map((address) =>
+          this.request<{ items: IndexedTransaction[] }>("blockchain/transaction/byAddress", {
+            method: "POST",
+            query: { offset, limit: PAGE_SIZE, sortDirection: "desc" },
+            body: address
+          })
+        )
+      );
+
+      addresses = addresses.filter((_, i) => pages[i].items.length === PAGE_SIZE);
+      offset += PAGE_SIZE;
+
+      const txs = pages.flatMap((page) => page.items).filter((tx) => !seen.has(tx.id));
+      for (const tx of txs) seen.add(tx.id);
+      if (isEmpty(txs)) continue;
+
+      yield sortBy(txs, [(tx) => -tx.inclusionHeight]).map((tx) => ({
+        transactionId: tx.id,
+        inputs: tx.inputs.map((i) => ({ ...mapBox(i), spendingProof: i.spendingProof })),
+        dataInputs: tx.dataInputs,
+        outputs: tx.outputs.map((o) => mapBox(o)),
+        height: tx.inclusionHeight,
+        index: tx.index,
+        blockId: tx.blockId,
+        timestamp: tx.timestamp,
+        confirmed: true
+      })) as ChainProviderConfirmedTransaction<string>[];
+    }
+  }
+
+  async getHeaders(query: { take: number }): Promise<BlockHeader[]> {
+    const headers = await this.request<BlockHeader[]>(`blocks/lastHeaders/${query.take}`);
+    return sortBy(headers, [(h) => -h.height]);
+  }
+
+  async submitTransaction(
+    signedTransaction: SignedTransaction
+  ): Promise<TransactionEvaluationResult> {
+    try {
+      const transactionId = await this.request<string>("transactions", {
+        method: "POST",
+        body: signedTransaction
+      });
+
+      return { success: true, transactionId };
+    } catch (e) {
+      return { success: false, message: (e as Error).message };
+    }
+  }
+
+  async mempoolTransactionsLookup(txIds: string[]): Promise<Set<string>> {
+    const set = new Set<string>();
+
+    for (const ids of chunk(txIds, MAX_PARAMS_PER_REQUEST)) {
+      const found = await this.request<string[]>("transactions/unconfirmed/byTransactionIds", {
+        method: "POST",
+        body: ids
+      });
+
+      for (const id of found) set.add(id);
+    }
+
+    return set;
+  }
+
+  async getMempoolFeeRates(take: number): Promise<number[]> {
+    const txs = await this.request<(NodeTransaction & { size: number })[]>(
+      "transactions/unconfirmed",
+      { query: { offset: 0, limit: take } }
+    );
+
+    return txs.map((tx) => feePerByte(tx.size, tx.outputs));
+  }
+
+  async #fetchPages<T>(path: string, body?: string): Promise<T[]> {
+    const items: T[] = [];
+    let offset = 0;
+
+    while (true) {
+      const page = await this.request<T[]>(path, {
+        method: body ? "POST" : "GET",
+        query: { offset, limit: PAGE_SIZE },
+        body
+      });
+
+      items.push(...page);
+      if (page.length < PAGE_SIZE) break;
+      offset += PAGE_SIZE;
+    }
+
+    return items;
+  }
+}
+
+export const nodeService = new NodeService();
+
+function getErgoTrees(where: NodeBoxWhere): string[] {
+  const ergoTrees = (where.addresses ?? []).map((a) =>
+    typeof a === "string" ? ErgoAddress.decodeUnsafe(a).ergoTree : a.ergoTree
+  );
+  if (where.ergoTrees) ergoTrees.push(...where.ergoTrees);
+  if (where.ergoTree) ergoTrees.push(where.ergoTree);
+
+  return ergoTrees;
+}
+
+function mapBox(box: NodeBox): Box<string>;
+function mapBox(box: NodeBox, confirmed: boolean): ChainProviderBox<string>;
+function mapBox(box: NodeBox, confirmed?: boolean): Box<string> | ChainProviderBox<string> {
+  const mapped: Box<string> = {
+    boxId: box.boxId,
+    transactionId: box.transactionId,
+    index: box.index,
+    value: box.value,
+    ergoTree: box.ergoTree,
+    creationHeight: box.creationHeight,
+    assets: box.assets.map((a) => ({ tokenId: a.tokenId, amount: a.amount })),
+    additionalRegisters: box.additionalRegisters
+  };
+
+  return confirmed === undefined ? mapped : { ...mapped, confirmed };
+}
+
+function isEIP4(box: NodeBox): boolean {
+  const { R4, R5, R6 } = box.additionalRegisters;
+  return !!R4 && !!R5 && !!R6;
+}
+
+function serializeBody(body: unknown): string | undefined {
+  if (body === undefined) return;
+  if (typeof body === "string") return body; // address and ergoTree endpoints take raw text
+
+  return JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+function parseResponse(text: string): unknown {
+  if (!text) return;
+
+  try {
+    return JSON.parse(text, (key, value, context?: { source: string }) =>
+      typeof value === "number" && AMOUNT_KEYS.has(key) ? (context?.source ?? String(value)) : value
+    );
+  } catch {
+    return text;
+  }
+}
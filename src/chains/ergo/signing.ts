@@ -8,15 +8,24 @@ import {
 import { ErgoMessage } from "@fleet-sdk/core";
 import { hex, randomBytes, utf8 } from "@fleet-sdk/crypto";
 import { useWalletStore } from "@/stores/walletStore";
+import { PasswordError } from "@/common/errors";
 import { hdKeyPool } from "@/common/objectPool";
+import { decrypt, encrypt } from "@/common/vault";
 import { addressesDbService } from "@/database/addressesDbService";
+import { multisigSessionsDbService } from "@/database/multisigSessionsDbService";
 import { walletsDbService } from "@/database/walletsDbService";
-import { IDbAddress } from "@/types/database";
+import { IDbAddress, IDbMultisigSession } from "@/types/database";
 import { SigningState, WalletType } from "@/types/internal";
 import { getChangeAddress } from "./addresses";
 import { extractAddressesFromInputs } from "./extraction";
-import HdKey from "./hdKey";
-import { graphQLService } from "./services/graphQlService";
+import {
+  extractPublicKey,
+  getTransactionId,
+  isSessionComplete,
+  PublicHints,
+  selectCosigners
+} from "./multisig";
+import { chainService } from "./services/chainService";
 import { getPrivateDeriver, Prover } from "./transaction/prover";
 
 export interface UnsignedAuthMessage {
@@ -34,6 +43,8 @@ export interface TransactionSigningParams {
   password: string;
   stateCallback?: SignStateReportCallback;
   inputsToSign?: number[];
+  /** Serialized EIP-19 reduced transaction, signed instead of `transaction` if set. */
+  reducedTransaction?: Uint8Array;
 }
 
 const wallet = useWalletStore();
@@ -82,7 +93,8 @@ export async function signTransaction({
   transaction,
   password,
   stateCallback: callback,
-  inputsToSign
+  inputsToSign,
+  reducedTransaction
 }: TransactionSigningParams): Promise<SignedTransaction | SignedInput[]> {
   const walletId = wallet.id;
   const inputAddresses = extractAddressesFromInputs(transaction.inputs);
@@ -107,25 +119,145 @@ export async function signTransaction({
   const isLedger = wallet.type === WalletType.Ledger;
   const deriver = isLedger
     ? hdKeyPool.get(wallet.publicKey)
-    : await HdKey.fromMnemonic(await walletsDbService.getMnemonic(walletId, password));
+    : await getPrivateDeriver(walletId, password);
 
   const encodedAddresses = ownAddresses.map((a) => a.script);
   const changeAddress = getChangeAddress(transaction.outputs, encodedAddresses);
 
-  const blockHeaders = isLedger ? [] : await graphQLService.getHeaders({ take: 10 });
+  // reduced transactions already carry their context, so they can be signed offline
+  const blockHeaders =
+    isLedger || reducedTransaction ? [] : await chainService.getHeaders({ take: 10 });
   const changeIndex = ownAddresses.find((a) => a.script === changeAddress)?.index ?? 0;
   const prover = new Prover(deriver)
     .from(addresses)
     .useLedger(isLedger)
+    .accountIndex(wallet.accountIndex)
     .changeIndex(changeIndex)
     .setHeaders(blockHeaders)
     .setCallback(callback);
 
+  if (reducedTransaction) return prover.signReducedTransaction(reducedTransaction);
+
   return some(inputsToSign)
     ? prover.signInputs(transaction, inputsToSign)
     : prover.signTransaction(transaction);
 }
 
+/**
+ * Starts an EIP-11 signing session for a multisig wallet, including this cosigner's
+ * commitment. The session must then be shared with the other cosigners.
+ */
+export async function createMultisigSession(
+  walletId: number,
+  transaction: EIP12UnsignedTransaction,
+  password: string
+): Promise<IDbMultisigSession> {
+  const address = (await addressesDbService.getByWalletId(walletId))[0];
+  const record: IDbMultisigSession = {
+    id: getTransactionId(transaction),
+    walletId,
+    session: { address: address.script, transaction, commitments: {}, signers: [] },
+    createdAt: Date.now()
+  };
+
+  return commitToMultisigSession(record, password);
+}
+
+/**
+ * Adds this cosigner's commitment to the session. The secret part of it is kept
+ * locally, encrypted with the spending password, until the signing round.
+ */
+export async function commitToMultisigSession(
+  record: IDbMultisigSession,
+  password: string
+): Promise<IDbMultisigSession> {
+  const { prover, publicKey } = await getCosignerProver(record.walletId, password);
+  if (record.session.commitments[publicKey]) throw Error("This cosigner already committed.");
+
+  const hints = prover
+    .setHeaders(await chainService.getHeaders({ take: 10 }))
+    .genCommitments(record.session.transaction);
+
+  const committed: IDbMultisigSession = {
+    ...record,
+    session: {
+      ...record.session,
+      commitments: { ...record.session.commitments, [publicKey]: hints.publicHints }
+    },
+    secretHints: await encrypt(JSON.stringify(hints.secretHints), password)
+  };
+
+  await multisigSessionsDbService.put(committed);
+  return committed;
+}
+
+/**
+ * Adds this cosigner's proofs to the session and submits the transaction once the
+ * threshold is reached.
+ */
+export async function signMultisigSession(
+  record: IDbMultisigSession,
+  password: string
+): Promise<IDbMultisigSession> {
+  if (!record.secretHints) throw Error("This cosigner has no commitment.");
+
+  const { prover, publicKey, settings } = await getCosignerProver(record.walletId, password);
+  const { session } = record;
+  const cosigners = selectCosigners(session, publicKey, settings);
+
+  const publicHints: PublicHints = {};
+  for (const key of cosigners.real) {
+    if (key === publicKey || session.signers.includes(key)) continue;
+    for (const [index, hints] of Object.entries(session.commitments[key])) {
+      publicHints[index] = [...(publicHints[index] ?? []), ...hints];
+    }
+  }
+
+  const secretHints = JSON.parse(await decrypt(record.secretHints, password));
+  const signed = prover.setHeaders(await chainService.getHeaders({ take: 10 })).signMultisig(
+    session.transaction,
+    { secretHints, publicHints },
+    session.partial && {
+      transaction: session.partial,
+      real: session.signers,
+      simulated: cosigners.simulated
+    }
+  );
+
+  const updated: IDbMultisigSession = {
+    ...record,
+    session: {
+      ...session,
+      partial: signed,
+      signers: [...session.signers, publicKey],
+      simulated: cosigners.simulated
+    },
+    secretHints: undefined // commitments must never be reused
+  };
+
+  await multisigSessionsDbService.put(updated);
+  if (isSessionComplete(updated.session, settings.threshold)) {
+    await chainService.submitTransaction(signed, record.walletId);
+  }
+
+  return updated;
+}
+
+async function getCosignerProver(walletId: number, password: string) {
+  // secret hints are encrypted with the password, so unlocked sessions can't be used here
+  if (!password) throw new PasswordError();
+
+  const settings = (await walletsDbService.getById(walletId))?.multisig;
+  if (!settings) throw Error("Not a multisig wallet.");
+
+  const deriver = await getPrivateDeriver(settings.signerWalletId, password);
+  const address = deriver.deriveAddress(0);
+  const publicKey = extractPublicKey(address.script);
+  if (!settings.publicKeys.includes(publicKey)) throw Error("This wallet is not a cosigner.");
+
+  return { prover: new Prover(deriver).from([address]), publicKey, settings };
+}
+
 function dbAddressMapper(a: IDbAddress) {
   return { ...a, balance: undefined };
 }
@@ -0,0 +1,246 @@
+import { TokenAmount } from "@fleet-sdk/common";
+import { ErgoAddress, MAX_TOKENS_PER_BOX } from "@fleet-sdk/core";
+import { estimateBoxSize } from "@fleet-sdk/serializer";
+import { bn, dbn, undecimalize } from "@/common/bigNumber";
+import { ERG_DECIMALS, ERG_TOKEN_ID, MIN_BOX_VALUE } from "@/constants/ergo";
+import { validateAddress } from "../addresses";
+
+/** Keeps room for inputs and data inputs within the node's transaction size limit. */
+export const MAX_BATCH_OUTPUTS_SIZE = 64 * 1024;
+export const MAX_BATCH_OUTPUTS = 200;
+
+export type BatchRecipient = {
+  address: string;
+  nanoErgs: bigint;
+  tokens: TokenAmount<bigint>[];
+};
+
+export type RecipientsParsingError = {
+  line: number;
+  message: string;
+};
+
+export type RecipientsParsingResult = {
+  recipients: BatchRecipient[];
+  errors: RecipientsParsingError[];
+};
+
+type RawEntry = {
+  line: number;
+  address: unknown;
+  tokenId?: unknown;
+  amount: unknown;
+};
+
+/**
+ * Returns the decimals of a token owned by the wallet, or `undefined` if the
+ * wallet doesn't hold it.
+ */
+export type DecimalsResolver = (tokenId: string) => number | undefined;
+
+/**
+ * Parses a recipients list in either CSV or JSON format.
+ *
+ * CSV rows are `address,amount[,tokenId]`, ERG is assumed if `tokenId` is omitted.
+ * JSON is an array of `{ address, amount?, tokens?: [{ tokenId, amount }] }`.
+ * Amounts are decimal, and rows for the same address are merged in one output.
+ */
+export function parseRecipients(
+  content: string,
+  getDecimals: DecimalsResolver
+): RecipientsParsingResult {
+  const trimmed = content.trim();
+  if (!trimmed) return { recipients: [], errors: [] };
+
+  let entries: RawEntry[];
+  try {
+    entries = trimmed.startsWith("[") ? readJson(trimmed) : readCsv(trimmed);
+  } catch (e) {
+    return { recipients: [], errors: [{ line: 0, message: (e as Error).message }] };
+  }
+
+  return mergeEntries(entries, getDecimals);
+}
+
+function readCsv(content: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [address, amount, tokenId] = line.split(/[,;\t]/).map((x) => x.trim());
+    if (i === 0 && address.toLowerCase() === "address") continue; // header
+
+    entries.push({ line: i + 1, address, amount, tokenId });
+  }
+
+  return entries;
+}
+
+function readJson(content: string): RawEntry[] {
+  const parsed = JSON.parse(content) as unknown;
+  if (!Array.isArray(parsed)) throw new Error("Expected an array of recipients.");
+
+  return parsed.flatMap((item, i): RawEntry[] => {
+    const line = i + 1;
+    const { address, amount, tokens } = (item ?? {}) as Record<string, unknown>;
+    const entries: RawEntry[] = [];
+
+    if (amount !== undefined || !Array.isArray(tokens)) entries.push({ line, address, amount });
+    if (Array.isArray(tokens)) {
+      for (const token of tokens as Record<string, unknown>[]) {
+        entries.push({ line, address, tokenId: token?.tokenId, amount: token?.amount });
+      }
+    }
+
+    return entries;
+  });
+}
+
+function mergeEntries(entries: RawEntry[], getDecimals: DecimalsResolver): RecipientsParsingResult {
+  const errors: RecipientsParsingError[] = [];
+  const recipients = new Map<string, BatchRecipient & { explicitErg: boolean }>();
+
+  for (const entry of entries) {
+    const fail = (message: string) => errors.push({ line: entry.line, message });
+
+    const address = typeof entry.address === "string" ? entry.address : "";
+    if (!isValidAddress(address)) {
+      fail(`Invalid address '${address}'.`);
+      continue;
+    }
+
+    const tokenId =
+      !entry.tokenId || String(entry.tokenId).toUpperCase() === "ERG"
+        ? ERG_TOKEN_ID
+        : String(entry.tokenId);
+    const decimals = tokenId === ERG_TOKEN_ID ? ERG_DECIMALS : getDecimals(tokenId);
+    if (decimals === undefined) {
+      fail(`Token '${tokenId}' is not available in this wallet.`);
+      continue;
+    }
+
+    const amount = bn(String(entry.amount ?? ""));
+    if (!amount.isFinite() || amount.lte(0) || (amount.decimalPlaces() ?? 0) > decimals) {
+      fail(`Invalid amount '${entry.amount ?? ""}'.`);
+      continue;
+    }
+
+    const units = BigInt(undecimalize(amount, decimals).toFixed(0));
+    const recipient = recipients.get(address) ?? {
+      address,
+      nanoErgs: 0n,
+      tokens: [],
+      explicitErg: false
+    };
+    recipients.set(address, recipient);
+
+    if (tokenId === ERG_TOKEN_ID) {
+      recipient.nanoErgs += units;
+      recipient.explicitErg = true;
+      continue;
+    }
+
+    const token = recipient.tokens.find((x) => x.tokenId === tokenId);
+    if (token) token.amount += units;
+    else recipient.tokens.push({ tokenId, amount: units });
+  }
+
+  for (const recipient of recipients.values()) {
+    if (!recipient.explicitErg) {
+      recipient.nanoErgs = BigInt(MIN_BOX_VALUE); // token-only outputs still need ERG
+    } else if (recipient.nanoErgs < BigInt(MIN_BOX_VALUE)) {
+      errors.push({
+        line: findLine(entries, recipient.address),
+        message: `The ERG amount for '${recipient.address}' is below the minimum box value.`
+      });
+    }
+
+    if (recipient.tokens.length > MAX_TOKENS_PER_BOX) {
+      errors.push({
+        line: findLine(entries, recipient.address),
+        message: `Too many tokens for '${recipient.address}', the limit is ${MAX_TOKENS_PER_BOX}.`
+      });
+    }
+  }
+
+  return {
+    recipients: [...recipients.values()].map(({ address, nanoErgs, tokens }) => ({
+      address,
+      nanoErgs,
+      tokens
+    })),
+    errors: errors.sort((a, b) => a.line - b.line)
+  };
+}
+
+function isValidAddress(address: string) {
+  try {
+    return validateAddress(address);
+  } catch {
+    return false; // malformed base58 strings throw instead of failing validation
+  }
+}
+
+function findLine(entries: RawEntry[], address: string) {
+  return entries.find((x) => x.address === address)?.line ?? 0;
+}
+
+/**
+ * Writes recipients back as CSV rows readable by `parseRecipients`, one row for the
+ * ERG amount of each recipient and one for each of its tokens.
+ */
+export function formatRecipients(
+  recipients: BatchRecipient[],
+  getDecimals: DecimalsResolver
+): string {
+  return recipients
+    .flatMap(({ address, nanoErgs, tokens }) => [
+      `${address},${dbn(nanoErgs, ERG_DECIMALS).toFixed()}`,
+      ...tokens.map(
+        (token) =>
+          `${address},${dbn(token.amount, getDecimals(token.tokenId) ?? 0).toFixed()},${token.tokenId}`
+      )
+    ])
+    .join("\n");
+}
+
+/**
+ * Splits the recipients in groups that fit in a single transaction, considering
+ * both the number of outputs and their estimated serialized size.
+ */
+export function splitRecipients(
+  recipients: BatchRecipient[],
+  { maxOutputs = MAX_BATCH_OUTPUTS, maxSize = MAX_BATCH_OUTPUTS_SIZE } = {}
+): BatchRecipient[][] {
+  const batches: BatchRecipient[][] = [];
+  let current: BatchRecipient[] = [];
+  let currentSize = 0;
+
+  for (const recipient of recipients) {
+    const size = estimateOutputSize(recipient);
+    if (current.length > 0 && (current.length >= maxOutputs || currentSize + size > maxSize)) {
+      batches.push(current);
+      current = [];
+      currentSize = 0;
+    }
+
+    current.push(recipient);
+    currentSize += size;
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+function estimateOutputSize(recipient: BatchRecipient) {
+  return estimateBoxSize({
+    value: recipient.nanoErgs,
+    ergoTree: ErgoAddress.decodeUnsafe(recipient.address).ergoTree,
+    creationHeight: 0,
+    assets: recipient.tokens,
+    additionalRegisters: {}
+  });
+}
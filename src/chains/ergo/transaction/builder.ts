@@ -1,10 +1,15 @@
 import { BabelSwapPlugin } from "@fleet-sdk/babel-fees-plugin";
-import { EIP12UnsignedTransaction, isEmpty } from "@fleet-sdk/common";
-import { CherryPickSelectionStrategy, OutputBuilder, TransactionBuilder } from "@fleet-sdk/core";
+import { Box, EIP12UnsignedTransaction, isEmpty, TokenAmount } from "@fleet-sdk/common";
+import {
+  CherryPickSelectionStrategy,
+  ErgoAddress,
+  OutputBuilder,
+  TransactionBuilder
+} from "@fleet-sdk/core";
 import BigNumber from "bignumber.js";
 import { useAppStore } from "@/stores/appStore";
 import { AssetBalance, useWalletStore } from "@/stores/walletStore";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
 import { bn, undecimalize } from "@/common/bigNumber";
 import { hdKeyPool } from "@/common/objectPool";
 import { ERG_DECIMALS, ERG_TOKEN_ID, MIN_BOX_VALUE, SAFE_MIN_FEE_VALUE } from "@/constants/ergo";
@@ -12,6 +17,8 @@ import { FeeSettings, WalletType } from "@/types/internal";
 import { UnconfirmedTransactionSummary } from "@/types/transactions";
 import { fetchBabelBoxes, getNanoErgsPerTokenRate, selectBestBabelBox } from "../babelFees";
 import { fetchBoxes } from "../boxFetcher";
+import { isDerivable } from "../walletSync";
+import { BatchRecipient } from "./batch";
 
 export const SAFE_MAX_CHANGE_TOKEN_LIMIT = 100;
 
@@ -23,6 +30,12 @@ export type TxAssetAmount = {
   amount?: BigNumber;
 };
 
+/** Box ids manually chosen to be spent or left untouched by a transaction. */
+export type CoinControl = {
+  pinned: string[];
+  excluded: string[];
+};
+
 export async function createRBFCancellationTransaction(
   unconfirmedTx: UnconfirmedTransactionSummary
 ): Promise<EIP12UnsignedTransaction> {
@@ -39,10 +52,68 @@ export async function createRBFCancellationTransaction(
   return unsigned.build().toEIP12Object();
 }
 
+/**
+ * Rebuilds an unconfirmed transaction spending the same inputs and paying the same
+ * recipients, with the fee increased by `additionalFee`. As both transactions spend
+ * the same boxes, the node replaces the original one by the higher paying one.
+ */
+export async function createRBFSpeedUpTransaction(
+  unconfirmedTx: UnconfirmedTransactionSummary,
+  additionalFee: BigNumber
+): Promise<EIP12UnsignedTransaction> {
+  const { inputs, currentHeight } = await getContext();
+  const replacedBoxIds = new Set(
+    [...unconfirmedTx.ownInputs, ...unconfirmedTx.ownOutputs].map((box) => box.boxId)
+  );
+  const fee = unconfirmedTx.fee.plus(additionalFee);
+
+  const unsigned = new TransactionBuilder(currentHeight)
+    .from(unconfirmedTx.ownInputs, { ensureInclusion: true })
+    .and.from(inputs.filter((input) => !replacedBoxIds.has(input.boxId)))
+    .to(
+      unconfirmedTx.recipientOutputs.map((output) =>
+        new OutputBuilder(output.value, ErgoAddress.fromErgoTree(output.ergoTree))
+          .addTokens(output.assets)
+          .setAdditionalRegisters(output.additionalRegisters)
+      )
+    )
+    .payFee(undecimalize(fee, ERG_DECIMALS).toString())
+    .sendChangeTo(safeGetChangeAddress());
+
+  setSelectionAndChangeStrategy(unsigned, wallet.type);
+
+  return unsigned.build().toEIP12Object();
+}
+
+/**
+ * Spends the wallet's outputs of an unconfirmed transaction back to the wallet,
+ * paying `fee` in the child transaction. Miners prioritize transactions by the fee
+ * of their whole family, so the parent gets confirmed faster along with the child.
+ */
+export async function createCPFPSpeedUpTransaction(
+  unconfirmedTx: UnconfirmedTransactionSummary,
+  fee: BigNumber
+): Promise<EIP12UnsignedTransaction> {
+  const { inputs, currentHeight } = await getContext();
+  const parentBoxIds = new Set(
+    [...unconfirmedTx.ownInputs, ...unconfirmedTx.ownOutputs].map((box) => box.boxId)
+  );
+
+  const unsigned = new TransactionBuilder(currentHeight)
+    .from(unconfirmedTx.ownOutputs, { ensureInclusion: true })
+    .and.from(inputs.filter((input) => !parentBoxIds.has(input.boxId)))
+    .payFee(undecimalize(fee, ERG_DECIMALS).toString())
+    .sendChangeTo(safeGetChangeAddress());
+
+  setSelectionAndChangeStrategy(unsigned, wallet.type);
+
+  return unsigned.build().toEIP12Object();
+}
+
 async function getContext() {
   const [inputs, currentHeight] = await Promise.all([
     fetchBoxes(wallet.id, app.settings.zeroConf),
-    graphQLService.getHeight()
+    chainService.getHeight()
   ]);
 
   if (isEmpty(inputs)) {
@@ -63,19 +134,20 @@ export async function createP2PTransaction({
   recipientAddress,
   assets,
   fee,
-  walletType
+  walletType,
+  coinControl
 }: {
   recipientAddress: string;
   assets: TxAssetAmount[];
   fee: FeeSettings;
   walletType: WalletType;
+  coinControl?: CoinControl;
 }): Promise<EIP12UnsignedTransaction> {
   const { inputs, currentHeight } = await getContext();
   const isBabelFee = fee.tokenId !== ERG_TOKEN_ID;
   const sendingNanoErgs = getSendingNanoErgs(assets);
 
-  const unsigned = new TransactionBuilder(currentHeight)
-    .from(inputs)
+  const unsigned = addInputs(new TransactionBuilder(currentHeight), inputs, coinControl)
     .to(
       new OutputBuilder(
         sendingNanoErgs.eq(0) && isBabelFee ? BigInt(MIN_BOX_VALUE) : sendingNanoErgs.toString(),
@@ -97,6 +169,74 @@ export async function createP2PTransaction({
   return unsigned.build().toEIP12Object();
 }
 
+export async function createBatchTransaction({
+  recipients,
+  fee,
+  walletType,
+  coinControl
+}: {
+  recipients: BatchRecipient[];
+  fee: FeeSettings;
+  walletType: WalletType;
+  coinControl?: CoinControl;
+}): Promise<EIP12UnsignedTransaction> {
+  const { inputs, currentHeight } = await getContext();
+
+  const unsigned = addInputs(new TransactionBuilder(currentHeight), inputs, coinControl)
+    .to(recipients.map((r) => new OutputBuilder(r.nanoErgs, r.address).addTokens(r.tokens)))
+    .sendChangeTo(safeGetChangeAddress());
+
+  await setFee(unsigned, fee);
+  setSelectionAndChangeStrategy(unsigned, walletType);
+
+  return unsigned.build().toEIP12Object();
+}
+
+/**
+ * Destroys the given amounts of tokens. Burned tokens are explicitly excluded from
+ * change, so the remaining balance of each token is sent back to the wallet.
+ */
+export async function createBurnTransaction({
+  tokens,
+  fee,
+  walletType
+}: {
+  tokens: TokenAmount<bigint>[];
+  fee: FeeSettings;
+  walletType: WalletType;
+}): Promise<EIP12UnsignedTransaction> {
+  const { inputs, currentHeight } = await getContext();
+
+  const unsigned = new TransactionBuilder(currentHeight)
+    .from(inputs)
+    .burnTokens(tokens)
+    .sendChangeTo(safeGetChangeAddress());
+
+  await setFee(unsigned, fee);
+  setSelectionAndChangeStrategy(unsigned, walletType);
+
+  return unsigned.build().toEIP12Object();
+}
+
+/**
+ * Adds the wallet's boxes as inputs, always spending the pinned ones and never
+ * touching the excluded ones. The rest is left to the selection strategy.
+ */
+function addInputs(
+  builder: TransactionBuilder,
+  inputs: Box<string>[],
+  coinControl?: CoinControl
+): TransactionBuilder {
+  if (!coinControl) return builder.from(inputs);
+
+  const pinned = inputs.filter((x) => coinControl.pinned.includes(x.boxId));
+  const rest = inputs.filter(
+    (x) => !coinControl.pinned.includes(x.boxId) && !coinControl.excluded.includes(x.boxId)
+  );
+
+  return builder.from(pinned, { ensureInclusion: true }).and.from(rest);
+}
+
 export function setSelectionAndChangeStrategy(
   builder: TransactionBuilder,
   walletType: WalletType
@@ -159,6 +299,8 @@ function getSendingNanoErgs(assets: TxAssetAmount[]): BigNumber {
 }
 
 export function safeGetChangeAddress(): string {
+  if (!isDerivable(wallet.type)) return wallet.changeAddress.script;
+
   const index = wallet.changeAddress.index ?? 0;
   return hdKeyPool.get(wallet.publicKey).deriveAddress(index).script;
 }
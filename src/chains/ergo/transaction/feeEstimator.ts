@@ -0,0 +1,73 @@
+import { EIP12UnsignedTransaction } from "@fleet-sdk/common";
+import { serializeTransaction } from "@fleet-sdk/serializer";
+import BigNumber from "bignumber.js";
+import { chainService } from "@/chains/ergo/services/chainService";
+import { bn } from "@/common/bigNumber";
+import { log } from "@/common/logger";
+import { SAFE_MIN_FEE_VALUE } from "@/constants/ergo";
+
+/** Size of a P2PK Schnorr proof, which replaces the empty proof of unsigned inputs. */
+const P2PK_PROOF_SIZE = 56;
+const MEMPOOL_SAMPLE_SIZE = 100;
+const RATES_CACHE_TIME = 60_000; // one minute
+
+/** Typical size of a simple payment, used when the transaction can't be built yet. */
+export const DEFAULT_TRANSACTION_SIZE = 300;
+
+export type FeePriority = "slow" | "normal" | "fast";
+
+/** Fee levels in nanoErgs per byte. */
+export type FeeRates = Record<FeePriority, number>;
+
+const PERCENTILES: Record<FeePriority, number> = { slow: 0.25, normal: 0.5, fast: 0.9 };
+
+let cache: { rates: FeeRates; timestamp: number } | undefined;
+
+/**
+ * Estimates the serialized size of a transaction once signed, assuming all inputs
+ * are protected by P2PK proofs.
+ */
+export function estimateTransactionSize(transaction: EIP12UnsignedTransaction): number {
+  return serializeTransaction(transaction).length + transaction.inputs.length * P2PK_PROOF_SIZE;
+}
+
+/**
+ * Calculates the fee levels from the fee per byte paid by the transactions currently
+ * waiting in the mempool. Results are cached for a minute.
+ */
+export async function getFeeRates(): Promise<FeeRates> {
+  if (cache && Date.now() - cache.timestamp < RATES_CACHE_TIME) return cache.rates;
+
+  let samples: number[] = [];
+  try {
+    samples = await chainService.getMempoolFeeRates(MEMPOOL_SAMPLE_SIZE);
+  } catch (e) {
+    log.error("Failed to fetch mempool fee rates", e);
+  }
+
+  const rates = calculateFeeRates(samples);
+  cache = { rates, timestamp: Date.now() };
+
+  return rates;
+}
+
+export function calculateFeeRates(samples: number[]): FeeRates {
+  const sorted = samples.filter((x) => Number.isFinite(x) && x > 0).sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] : 0;
+
+  return {
+    slow: percentile(PERCENTILES.slow),
+    normal: percentile(PERCENTILES.normal),
+    fast: percentile(PERCENTILES.fast)
+  };
+}
+
+/**
+ * Returns the fee in nanoErgs for a transaction of `size` bytes, never lower than
+ * the minimum fee accepted by the network.
+ */
+export function calculateFee(rate: number, size: number): BigNumber {
+  const fee = bn(rate).times(size).integerValue(BigNumber.ROUND_UP);
+  return BigNumber.max(fee, SAFE_MIN_FEE_VALUE);
+}
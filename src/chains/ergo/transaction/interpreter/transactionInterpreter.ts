@@ -86,6 +86,12 @@ export class TransactionInterpreter {
     });
   }
 
+  public get spending(): OutputInterpreter[] {
+    return this._ownInputs.map(
+      (b) => new OutputInterpreter(b, this._tx.inputs, this._metadata, this._addresses)
+    );
+  }
+
   public get burning(): OutputAsset[] | undefined {
     if (isEmpty(this._burningBalance)) return;
     return this._burningBalance;
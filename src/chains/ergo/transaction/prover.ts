@@ -6,26 +6,47 @@ import {
   SignedInput,
   SignedTransaction
 } from "@fleet-sdk/common";
+import { hex } from "@fleet-sdk/crypto";
 import WebUSBTransport from "@ledgerhq/hw-transport-webusb";
 import {
   Address,
   BlockHeaders,
   ErgoBoxes,
   ErgoStateContext,
+  extract_hints,
   Parameters,
   PreHeader,
+  Propositions,
+  ReducedTransaction,
   SecretKey,
   SecretKeys,
   Tokens,
   Transaction,
+  TransactionHintsBag,
   UnsignedTransaction,
   Wallet
 } from "ergo-lib-wasm-browser";
 import { BoxCandidate, ErgoLedgerApp, Network, Token, UnsignedBox } from "ledger-ergo-js";
-import { DERIVATION_PATH, MAINNET } from "@/constants/ergo";
+import { PasswordError } from "@/common/errors";
+import { MAINNET } from "@/constants/ergo";
 import { walletsDbService } from "@/database/walletsDbService";
 import { addressFromErgoTree } from "../addresses";
-import HdKey, { IndexedAddress } from "../hdKey";
+import HdKey, { getDerivationPath, IndexedAddress } from "../hdKey";
+import { sessionKeys } from "./sessionKeys";
+
+/** Serialized `TransactionHintsBag`, with hints indexed by input. */
+export type TransactionHints = {
+  secretHints: Record<string, unknown[]>;
+  publicHints: Record<string, unknown[]>;
+};
+
+export type PartialSignature = {
+  transaction: SignedTransaction;
+  /** Public keys of the cosigners who already signed. */
+  real: string[];
+  /** Public keys whose proofs were simulated. */
+  simulated: string[];
+};
 
 export type ProverStateType = "success" | "error" | "loading" | "locked" | "ready";
 
@@ -55,6 +76,7 @@ export class Prover {
   #from!: IndexedAddress[];
   #useLedger!: boolean;
   #changeIndex!: number;
+  #accountIndex: number;
   #deriver!: HdKey;
   #headers?: BlockHeaders;
 
@@ -63,6 +85,7 @@ export class Prover {
   constructor(deriver: HdKey) {
     this.#deriver = deriver;
     this.#useLedger = false;
+    this.#accountIndex = 0;
   }
 
   from(addresses: IndexedAddress[]): Prover {
@@ -75,6 +98,11 @@ export class Prover {
     return this;
   }
 
+  accountIndex(index = 0): Prover {
+    this.#accountIndex = index;
+    return this;
+  }
+
   setCallback<T>(callback?: (newState: T) => void): Prover {
     if (callback) {
       this.#callbackFn = callback as (newVal: unknown) => void;
@@ -116,12 +144,64 @@ export class Prover {
     return this.#signInputs(tx, inputs, dataInputs, inputsToSign);
   }
 
-  genCommitments(unsignedTx: EIP12UnsignedTransaction) {
+  /**
+   * Reduces the transaction against the current blockchain context, so it can be
+   * signed offline. Returns the serialized reduced transaction.
+   */
+  reduceTransaction(unsignedTx: EIP12UnsignedTransaction): Uint8Array {
+    const { tx, inputs, dataInputs } = this.#parseUnsignedTx(unsignedTx);
+    return ReducedTransaction.from_unsigned_tx(
+      tx,
+      inputs,
+      dataInputs,
+      this.#buildContext()
+    ).sigma_serialize_bytes();
+  }
+
+  signReducedTransaction(reducedTx: Uint8Array): SignedTransaction {
+    const reduced = ReducedTransaction.sigma_parse_bytes(reducedTx);
+    return this.#buildWallet().sign_reduced_transaction(reduced).to_js_eip12();
+  }
+
+  genCommitments(unsignedTx: EIP12UnsignedTransaction): TransactionHints {
     const context = this.#buildContext();
     const { tx, inputs, dataInputs } = this.#parseUnsignedTx(unsignedTx);
     return this.#buildWallet().generate_commitments(context, tx, inputs, dataInputs).to_json();
   }
 
+  /**
+   * Adds this cosigner's proofs to an EIP-11 multisig transaction. `hints` must hold
+   * the cosigner's secret commitments and the public commitments of the others. If
+   * the transaction was already partially signed, the previous proofs are extracted
+   * and used as hints too.
+   */
+  signMultisig(
+    unsignedTx: EIP12UnsignedTransaction,
+    hints: TransactionHints,
+    partial?: PartialSignature
+  ): SignedTransaction {
+    const context = this.#buildContext();
+    const { tx, inputs, dataInputs } = this.#parseUnsignedTx(unsignedTx);
+
+    if (partial) {
+      const extracted: TransactionHints = extract_hints(
+        Transaction.from_json(JSON.stringify(partial.transaction)),
+        context,
+        inputs,
+        dataInputs,
+        toPropositions(partial.real),
+        toPropositions(partial.simulated)
+      ).to_json();
+
+      hints = mergeHints(hints, extracted);
+    }
+
+    const bag = TransactionHintsBag.from_json(JSON.stringify(hints));
+    return this.#buildWallet()
+      .sign_transaction_multi(context, tx, inputs, dataInputs, bag)
+      .to_js_eip12();
+  }
+
   #parseUnsignedTx(unsignedTx: EIP12UnsignedTransaction) {
     const inputs = ErgoBoxes.from_boxes_json(unsignedTx.inputs);
     const dataInputs = ErgoBoxes.from_boxes_json(unsignedTx.dataInputs);
@@ -150,13 +230,13 @@ export class Prover {
 
       const proofs = await ledgerApp.signTx(
         {
-          inputs: mapLedgerInputs(unsigned, unspentBoxes, this.#from),
+          inputs: mapLedgerInputs(unsigned, unspentBoxes, this.#from, this.#accountIndex),
           dataInputs: mapLedgerDataInputs(dataInputs),
           outputs: mapLedgerOutputs(unsigned),
           distinctTokenIds: unsigned.distinct_token_ids(),
           changeMap: {
             address: this.#deriver.deriveAddress(this.#changeIndex ?? 0).script,
-            path: `${DERIVATION_PATH}/${this.#changeIndex}`
+            path: `${getDerivationPath(this.#accountIndex)}/${this.#changeIndex}`
           }
         },
         MAINNET ? Network.Mainnet : Network.Testnet
@@ -212,6 +292,28 @@ export class Prover {
   }
 }
 
+function toPropositions(publicKeys: string[]) {
+  const propositions = new Propositions();
+  for (const key of publicKeys) {
+    propositions.add_proposition_from_byte(hex.decode(`cd${key}`));
+  }
+
+  return propositions;
+}
+
+function mergeHints(a: TransactionHints, b: TransactionHints): TransactionHints {
+  const merge = (x: Record<string, unknown[]>, y: Record<string, unknown[]>) => {
+    const merged = { ...x };
+    for (const index in y) merged[index] = [...(merged[index] ?? []), ...y[index]];
+    return merged;
+  };
+
+  return {
+    secretHints: merge(a.secretHints, b.secretHints),
+    publicHints: merge(a.publicHints, b.publicHints)
+  };
+}
+
 function getBoxById(wasmBoxes: ErgoBoxes, boxId: string) {
   for (let i = 0; i < wasmBoxes.len(); i++) {
     if (wasmBoxes.get(i).box_id().to_str() === boxId) return wasmBoxes.get(i);
@@ -230,7 +332,13 @@ function mapTokens(wasmTokens: Tokens) {
   return tokens;
 }
 
-function mapLedgerInputs(tx: UnsignedTransaction, inputs: ErgoBoxes, addresses: IndexedAddress[]) {
+function mapLedgerInputs(
+  tx: UnsignedTransaction,
+  inputs: ErgoBoxes,
+  addresses: IndexedAddress[],
+  accountIndex: number
+) {
+  const basePath = getDerivationPath(accountIndex);
   const mappedInputs: UnsignedBox[] = [];
   for (let i = 0; i < tx.inputs().len(); i++) {
     const input = tx.inputs().get(i);
@@ -251,7 +359,7 @@ function mapLedgerInputs(tx: UnsignedTransaction, inputs: ErgoBoxes, addresses:
       tokens: mapTokens(box.tokens()),
       additionalRegisters: box.serialized_additional_registers(),
       extension: input.extension().sigma_serialize_bytes(),
-      signPath: `${DERIVATION_PATH}/${path.index}`
+      signPath: `${basePath}/${path.index}`
     });
   }
 
@@ -283,6 +391,27 @@ function mapLedgerOutputs(tx: UnsignedTransaction) {
   return outputs;
 }
 
-export async function getPrivateDeriver(walletId: number, password: string): Promise<HdKey> {
-  return await HdKey.fromMnemonic(await walletsDbService.getMnemonic(walletId, password));
+/**
+ * Without a password, the key is taken from the unlocked session. Otherwise, it's decrypted
+ * and handed to the session key provider, which keeps it if unlocked sessions are enabled.
+ * @throws {PasswordError} if the password is wrong, or missing while the session is locked.
+ */
+export async function getPrivateDeriver(walletId: number, password?: string): Promise<HdKey> {
+  if (!password) {
+    const key = await sessionKeys.get(walletId);
+    if (!key) throw new PasswordError("The session is locked.");
+
+    return HdKey.fromPrivateKey(key);
+  }
+
+  const wallet = await walletsDbService.getById(walletId);
+  const mnemonic = await walletsDbService.getMnemonic(walletId, password);
+  const passphrase = await walletsDbService.getPassphrase(walletId, password);
+  const deriver = await HdKey.fromMnemonic(mnemonic, {
+    accountIndex: wallet?.accountIndex,
+    passphrase
+  });
+
+  await sessionKeys.keep(walletId, deriver.extendedPrivateKey);
+  return deriver;
 }
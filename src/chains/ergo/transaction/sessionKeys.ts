@@ -0,0 +1,20 @@
+/**
+ * Keeps decrypted wallet keys between signatures, so signing doesn't ask for the password
+ * every time. Provided by the extension, which holds them in its background worker.
+ */
+export type SessionKeyProvider = {
+  get(walletId: number): Promise<string | undefined>;
+  /** Returns `false` if keys are not kept. */
+  keep(walletId: number, key: string): Promise<boolean>;
+};
+
+const noSession: SessionKeyProvider = {
+  get: async () => undefined,
+  keep: async () => false
+};
+
+export let sessionKeys = noSession;
+
+export function setSessionKeyProvider(provider: SessionKeyProvider) {
+  sessionKeys = provider;
+}
@@ -43,6 +43,11 @@ export function summarizeTransaction(
     : ({
         ...summary,
         ownInputs,
-        cancelable: ownInputs.length > 0 && ownOutputs.length < transaction.outputs.length - 1 // -1 for fee box
+        ownOutputs,
+        recipientOutputs: transaction.outputs.filter(
+          (x) => x.ergoTree !== FEE_CONTRACT && !ergoTrees.has(x.ergoTree)
+        ),
+        cancelable: ownInputs.length > 0 && ownOutputs.length < transaction.outputs.length - 1, // -1 for fee box
+        replaceable: ownInputs.length > 0 && ownInputs.length === transaction.inputs.length
       } as UnconfirmedTransactionSummary);
 }
@@ -0,0 +1,224 @@
+import { storage } from "webextension-polyfill";
+import { CHUNK_DERIVE_LENGTH } from "@/constants/ergo";
+import { addressesDbService } from "@/database/addressesDbService";
+import { assetsDbService } from "@/database/assetsDbService";
+import { IDbAddress, IDbAsset, IDbWallet, NotNullId } from "@/types/database";
+import { AddressState, AddressType, WalletType } from "@/types/internal";
+import HdKey, { IndexedAddress } from "./hdKey";
+import { chainService } from "./services/chainService";
+
+const SYNC_STATE_KEY_PREFIX = "syncState:";
+
+export type ScanProgress = { scanned: number; target: number };
+
+export type WalletSyncState = {
+  syncedAt: number;
+  /** Whether the sync changed the wallet's balance. */
+  balanceChanged: boolean;
+  /** Whether the sync changed the wallet's addresses. */
+  addressesChanged: boolean;
+};
+
+export type SyncWalletOptions = {
+  deriver?: HdKey;
+  addresses?: IDbAddress[];
+  assets?: IDbAsset[];
+  scanUntil?: number;
+  onProgress?: (progress: ScanProgress) => void;
+  isCancelled?: () => boolean;
+};
+
+export type SyncResult = {
+  changedAddresses: IDbAddress[];
+  changedAssets: IDbAsset[];
+  removedAssets: IDbAsset[];
+  syncedAt: number;
+};
+
+type SyncableWallet = Pick<
+  NotNullId<IDbWallet>,
+  "id" | "type" | "publicKey" | "chainCode" | "settings"
+>;
+
+/**
+ * Whether addresses of the wallet are derived from an account public key. Other
+ * wallets have a fixed set of addresses, stored when the wallet is created.
+ */
+export function isDerivable(type: WalletType): boolean {
+  return type !== WalletType.Multisig && type !== WalletType.WatchOnly;
+}
+
+/**
+ * Discovers the wallet's addresses up to its gap limit, fetches their balances and
+ * persists whatever changed. Used by both the background worker and the UI, so
+ * every context reads the same data from the database. Non-derivable wallets
+ * only check their stored addresses.
+ *
+ * @returns the applied changes, or `undefined` if cancelled midway.
+ */
+export async function syncWallet(
+  wallet: SyncableWallet,
+  opt: SyncWalletOptions = {}
+): Promise<SyncResult | undefined> {
+  const walletId = wallet.id;
+  const gapLimit = wallet.settings.gapLimit ?? CHUNK_DERIVE_LENGTH;
+  const derivable = isDerivable(wallet.type);
+  const deriver = derivable
+    ? (opt.deriver ??
+      HdKey.fromPublicKey({ publicKey: wallet.publicKey, chainCode: wallet.chainCode }))
+    : undefined;
+  const currentAddresses = opt.addresses ?? (await addressesDbService.getByWalletId(walletId));
+  const currentAssets = opt.assets ?? (await assetsDbService.getByWalletId(walletId));
+
+  const addressesChunks = [] as IDbAddress[][];
+  const assetsChunks = [] as IDbAsset[][];
+  let offset = 0;
+  let keepChecking = true;
+
+  while (keepChecking) {
+    if (opt.isCancelled?.()) return;
+
+    const derived = deriver
+      ? getOrDerive(currentAddresses, deriver, CHUNK_DERIVE_LENGTH, offset)
+      : currentAddresses;
+    const info = await chainService.getAddressesInfo(derived.map((x) => x.script));
+
+    addressesChunks.push(
+      derived.map((d) => {
+        const i = info.find((x) => x.address === d.script);
+        return {
+          type: derivable ? AddressType.P2PK : (d as IDbAddress).type,
+          state: i?.used ? AddressState.Used : AddressState.Unused,
+          script: d.script,
+          index: d.index,
+          walletId
+        };
+      })
+    );
+
+    assetsChunks.push(
+      info.flatMap((address) =>
+        address.assets.map(
+          (asset): IDbAsset => ({
+            address: address.address,
+            tokenId: asset.tokenId,
+            confirmedAmount: asset.confirmedAmount,
+            unconfirmedAmount: asset.unconfirmedAmount,
+            walletId
+          })
+        )
+      )
+    );
+
+    offset += derived.length;
+    keepChecking =
+      derivable &&
+      (offset <= (opt.scanUntil ?? 0) || countTrailingUnused(addressesChunks.flat()) < gapLimit);
+
+    opt.onProgress?.({ scanned: offset, target: Math.max(offset, (opt.scanUntil ?? 0) + 1) });
+  }
+
+  if (opt.isCancelled?.()) return;
+
+  const changes = getChanges(
+    currentAddresses,
+    addressesChunks.flat(),
+    currentAssets,
+    assetsChunks.flat(),
+    derivable
+  );
+
+  await addressesDbService.bulkPut(changes.changedAddresses);
+  await assetsDbService.bulkPut(changes.changedAssets);
+  await assetsDbService.bulkDelete(changes.removedAssets);
+
+  const result = { ...changes, syncedAt: Date.now() };
+  await publishSyncState(walletId, result);
+
+  return result;
+}
+
+/**
+ * Each wallet has its own storage key, so the popup and the background worker
+ * can publish syncs concurrently without overwriting each other's state.
+ */
+export function getSyncStateKey(walletId: number): string {
+  return `${SYNC_STATE_KEY_PREFIX}${walletId}`;
+}
+
+/** Returns the wallet id of a sync state storage key, if it is one. */
+export function parseSyncStateKey(key: string): number | undefined {
+  if (!key.startsWith(SYNC_STATE_KEY_PREFIX)) return;
+  return Number(key.slice(SYNC_STATE_KEY_PREFIX.length));
+}
+
+/**
+ * Records the wallet's last synchronization in the extension storage, which
+ * notifies every open popup and the background worker that fresh data is
+ * available in the database. The state is written as a whole, never read back,
+ * so there is no read-modify-write to race with.
+ */
+async function publishSyncState(walletId: number, result: SyncResult) {
+  const state: WalletSyncState = {
+    syncedAt: result.syncedAt,
+    balanceChanged: result.changedAssets.length > 0 || result.removedAssets.length > 0,
+    addressesChanged: result.changedAddresses.length > 0
+  };
+
+  await storage.local.set({ [getSyncStateKey(walletId)]: state });
+}
+
+export function countTrailingUnused(addresses: { state: AddressState }[]) {
+  const lastUsed = addresses.findLastIndex((x) => x.state === AddressState.Used);
+  return addresses.length - lastUsed - 1;
+}
+
+function getOrDerive(derived: IndexedAddress[], deriver: HdKey, count: number, offset: number) {
+  const chunk = derived.slice(offset, offset + count);
+  if (chunk.length < count) {
+    const remaining = count - chunk.length;
+    chunk.push(...deriver.deriveAddresses(remaining, offset + chunk.length));
+  }
+
+  return chunk;
+}
+
+function getChanges(
+  currentAddresses: IDbAddress[],
+  newAddress: IDbAddress[],
+  currentAssets: IDbAsset[],
+  newAssets: IDbAsset[],
+  prune: boolean
+) {
+  const sortedAddresses = newAddress.sort((a, b) => a.index - b.index);
+  const latUsedIndex = sortedAddresses.findLastIndex((a) => a.state === AddressState.Used);
+  const prunedAddresses = prune
+    ? sortedAddresses.slice(0, latUsedIndex + 2) // keep last used and next unused
+    : sortedAddresses;
+
+  const changedAddresses = prunedAddresses.filter((newAddress) => {
+    const currentAddress = currentAddresses.find((x) => x.script === newAddress.script);
+    if (!currentAddress) return true;
+    return currentAddress.state !== newAddress.state;
+  });
+
+  const changedAssets = newAssets.filter((newAsset) => {
+    if (!prunedAddresses.some((x) => x.script === newAsset.address)) return false;
+
+    const currentAsset = currentAssets.find(
+      (x) => x.tokenId === newAsset.tokenId && x.address === newAsset.address
+    );
+    if (!currentAsset) return true;
+
+    return (
+      currentAsset.confirmedAmount !== newAsset.confirmedAmount ||
+      currentAsset.unconfirmedAmount !== newAsset.unconfirmedAmount
+    );
+  });
+
+  const removedAssets = currentAssets.filter(
+    (c) => !newAssets.some((n) => n.address === c.address && n.tokenId === c.tokenId)
+  );
+
+  return { changedAddresses, changedAssets, removedAssets };
+}
@@ -0,0 +1,49 @@
+import { uniq } from "@fleet-sdk/common";
+import { ErgoAddress, AddressType as ErgoAddressType } from "@fleet-sdk/core";
+import { blake2b256, hex, utf8 } from "@fleet-sdk/crypto";
+import { AddressType } from "@/types/internal";
+import { validateAddress } from "./addresses";
+
+export const MAX_WATCHED_ADDRESSES = 50;
+
+const ADDRESS_TYPES: Partial<Record<ErgoAddressType, AddressType>> = {
+  [ErgoAddressType.P2PK]: AddressType.P2PK,
+  [ErgoAddressType.P2SH]: AddressType.P2SH,
+  [ErgoAddressType.P2S]: AddressType.P2S
+};
+
+/**
+ * Splits a list of addresses separated by spaces, commas or line breaks. Duplicates
+ * are dropped, the order is kept.
+ */
+export function parseAddressList(input: string): string[] {
+  return uniq(input.split(/[\s,]+/).filter((address) => address !== ""));
+}
+
+/** Returns the addresses of the list that are not valid for the current network. */
+export function findInvalidAddresses(addresses: string[]): string[] {
+  return addresses.filter((address) => !isValid(address));
+}
+
+export function getAddressType(address: string): AddressType {
+  const type = ADDRESS_TYPES[ErgoAddress.decode(address).type];
+  if (type === undefined) throw Error(`Unsupported address type: ${address}`);
+
+  return type;
+}
+
+/**
+ * Watch-only wallets have no public key, so they are identified by the hash of their
+ * addresses. Addresses are sorted, so the same set always gets the same identifier.
+ */
+export function getWatchOnlyId(addresses: string[]): string {
+  return hex.encode(blake2b256(utf8.decode([...addresses].sort().join("\n"))));
+}
+
+function isValid(address: string): boolean {
+  try {
+    return validateAddress(address);
+  } catch {
+    return false; // not base58 encoded
+  }
+}
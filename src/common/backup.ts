@@ -0,0 +1,79 @@
+import { omit } from "es-toolkit";
+import type { Settings } from "@/stores/appStore";
+import { IDbDAppConnection, IDbWallet, NotNullId } from "@/types/database";
+import { WalletType } from "@/types/internal";
+import { decrypt, DEFAULT_VAULT_PARAMS, encrypt, getVaultVersion, VAULT_VERSION } from "./vault";
+
+export const BACKUP_VERSION = 1;
+
+/**
+ * Wallet as stored in a backup file. Mnemonics and passphrases are kept as they are in
+ * the database, encrypted with the wallet's own spending password.
+ */
+export type WalletBackup = Omit<NotNullId<IDbWallet>, "network" | "lastSynced">;
+
+export type Backup = {
+  version: typeof BACKUP_VERSION;
+  createdAt: number;
+  wallets: WalletBackup[];
+  connectedDApps: IDbDAppConnection[];
+  settings: Settings;
+};
+
+export function buildBackup(
+  wallets: NotNullId<IDbWallet>[],
+  connectedDApps: IDbDAppConnection[],
+  settings: Settings
+): Backup {
+  return {
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    wallets: wallets.map((wallet) => omit(wallet, ["network", "lastSynced"])),
+    connectedDApps,
+    settings
+  };
+}
+
+/**
+ * Encrypts the whole backup with the backup password, on top of the wallets' own
+ * encryption, so names, settings and connections are not exposed either.
+ */
+export function encryptBackup(
+  backup: Backup,
+  password: string,
+  params = DEFAULT_VAULT_PARAMS
+): Promise<string> {
+  return encrypt(JSON.stringify(backup), password, params);
+}
+
+/**
+ * @throws {PasswordError} if the password is wrong.
+ */
+export async function decryptBackup(content: string, password: string): Promise<Backup> {
+  if (!isBackupFile(content)) throw Error("Invalid backup file.");
+
+  const backup = JSON.parse(await decrypt(content, password)) as Backup;
+  if (backup.version !== BACKUP_VERSION) throw Error("Unsupported backup version.");
+  if (!Array.isArray(backup.wallets) || !Array.isArray(backup.connectedDApps)) {
+    throw Error("Invalid backup file.");
+  }
+
+  return backup;
+}
+
+/**
+ * Multisig wallets reference their signer wallet, so they must be restored last to
+ * have the signer's new id at hand.
+ */
+export function sortForRestore(wallets: WalletBackup[]): WalletBackup[] {
+  const multisig = (w: WalletBackup) => (w.type === WalletType.Multisig ? 1 : 0);
+  return [...wallets].sort((a, b) => multisig(a) - multisig(b));
+}
+
+function isBackupFile(content: string): boolean {
+  try {
+    return getVaultVersion(content.trim()) === VAULT_VERSION;
+  } catch {
+    return false;
+  }
+}
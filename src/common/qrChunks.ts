@@ -0,0 +1,73 @@
+/** Max characters per QR code, small enough to be reliably scanned from a screen. */
+export const QR_CHUNK_SIZE = 400;
+
+/** Room left for the JSON envelope and the page properties. */
+const ENVELOPE_SIZE = 20;
+
+export type QrChunk = {
+  /** Page number, starting at 1. */
+  page: number;
+  pages: number;
+  data: string;
+};
+
+/**
+ * Splits `data` into EIP-19 QR pages. Each page is a JSON object holding the chunk
+ * under the `prefix` key, plus the page number `p` and the page count `n` if the
+ * data doesn't fit in a single QR code.
+ */
+export function toQrChunks(prefix: string, data: string, chunkSize = QR_CHUNK_SIZE): string[] {
+  const size = chunkSize - prefix.length - ENVELOPE_SIZE;
+  if (size <= 0) throw Error("Chunk size is too small.");
+  if (data.length <= size) return [JSON.stringify({ [prefix]: data })];
+
+  const pages = Math.ceil(data.length / size);
+  const chunks: string[] = [];
+  for (let i = 0; i < pages; i++) {
+    const chunk = data.slice(i * size, (i + 1) * size);
+    chunks.push(JSON.stringify({ [prefix]: chunk, p: i + 1, n: pages }));
+  }
+
+  return chunks;
+}
+
+/**
+ * Parses the content of a scanned QR code. Returns `undefined` if it's not an
+ * EIP-19 page of the expected type.
+ */
+export function parseQrChunk(prefix: string, content: string): QrChunk | undefined {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return;
+  }
+
+  if (!parsed || typeof parsed !== "object" || typeof parsed[prefix] !== "string") return;
+
+  const page = parsed.p === undefined ? 1 : Number(parsed.p);
+  const pages = parsed.n === undefined ? 1 : Number(parsed.n);
+  if (!Number.isInteger(page) || !Number.isInteger(pages) || page < 1 || page > pages) return;
+
+  return { page, pages, data: parsed[prefix] as string };
+}
+
+/**
+ * Joins the scanned pages back, in order. Returns `undefined` while pages are missing.
+ */
+export function joinQrChunks(chunks: QrChunk[]): string | undefined {
+  if (chunks.length === 0) return;
+
+  const pages = chunks[0].pages;
+  const sorted: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.pages !== pages) throw Error("QR codes from different requests were scanned.");
+    sorted[chunk.page - 1] = chunk.data;
+  }
+
+  for (let i = 0; i < pages; i++) {
+    if (sorted[i] === undefined) return;
+  }
+
+  return sorted.join("");
+}
@@ -1,3 +1,12 @@
 export function mountExtendedPublicKey(publicKey: string, chainCode: string): string {
   return `0488b21e000000000000000000${chainCode}${publicKey}`;
 }
+
+/**
+ * Converts URL-safe Base64, as used by EIP-19 and EIP-20 payloads, to standard padded
+ * Base64. Standard Base64 strings are returned unchanged.
+ */
+export function normalizeBase64(urlSafe: string): string {
+  const base = urlSafe.trim().replace(/-/g, "+").replace(/_/g, "/");
+  return base.padEnd(base.length + ((4 - (base.length % 4)) % 4), "=");
+}
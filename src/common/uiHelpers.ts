@@ -16,7 +16,11 @@ export async function getBoundsForTabWindow(tabId?: number) {
   return { width: window.width, left: window.left, top: window.top };
 }
 
-export async function createWindow(tabId?: number) {
+/**
+ * Opens an extension page in a popup window next to the given tab.
+ * @param path Page path relative to the extension entry root, the connector by default.
+ */
+export async function createWindow(tabId?: number, path = "connector/index.html") {
   if (!browser) throw Error("Browser API is not available");
 
   const bounds = await getBoundsForTabWindow(tabId);
@@ -24,7 +28,7 @@ export async function createWindow(tabId?: number) {
     ...POPUP_SIZE,
     focused: true,
     type: "popup",
-    url: browser.runtime.getURL(`${EXT_ENTRY_ROOT}/connector/index.html`),
+    url: browser.runtime.getURL(`${EXT_ENTRY_ROOT}/${path}`),
     left:
       isDefined(bounds?.width) && isDefined(bounds.left)
         ? bounds?.width + bounds?.left - (POPUP_SIZE.width + 10)
@@ -32,3 +36,13 @@ export async function createWindow(tabId?: number) {
     top: isDefined(bounds?.top) ? bounds?.top + 50 : undefined
   });
 }
+
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+
+  URL.revokeObjectURL(url);
+}
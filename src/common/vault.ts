@@ -0,0 +1,108 @@
+import { base64, randomBytes, utf8 } from "@fleet-sdk/crypto";
+import AES from "crypto-js/aes";
+import utf8Enc from "crypto-js/enc-utf8";
+import { PasswordError } from "./errors";
+
+/** crypto-js' AES, with its OpenSSL compatible EVP key derivation. Decryption only. */
+export const LEGACY_VAULT_VERSION = 0;
+/** WebCrypto AES-GCM, with a PBKDF2 derived key. */
+export const VAULT_VERSION = 1;
+
+export type VaultParams = { iterations: number };
+
+export const DEFAULT_VAULT_PARAMS: VaultParams = { iterations: 600_000 };
+
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+type Vault = {
+  version: typeof VAULT_VERSION;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+};
+
+/**
+ * Encrypts a secret with a key derived from the password. Every vault gets its own
+ * salt and stores the parameters it was created with, so they can be raised later
+ * without breaking existing vaults.
+ */
+export async function encrypt(
+  secret: string,
+  password: string,
+  params = DEFAULT_VAULT_PARAMS
+): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(password, salt, params.iterations);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, utf8.decode(secret));
+
+  const vault: Vault = {
+    version: VAULT_VERSION,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: params.iterations,
+      salt: base64.encode(salt)
+    },
+    cipher: { name: "AES-GCM", iv: base64.encode(iv) },
+    data: base64.encode(new Uint8Array(data))
+  };
+
+  return JSON.stringify(vault);
+}
+
+/**
+ * Decrypts a vault of any known version.
+ * @throws {PasswordError} if the password is wrong.
+ */
+export async function decrypt(vault: string, password: string): Promise<string> {
+  if (getVaultVersion(vault) === LEGACY_VAULT_VERSION) return decryptLegacy(vault, password);
+
+  const parsed = JSON.parse(vault) as Vault;
+  if (parsed.version !== VAULT_VERSION) throw Error("Unsupported vault version.");
+
+  const key = await deriveKey(password, base64.decode(parsed.kdf.salt), parsed.kdf.iterations);
+
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64.decode(parsed.cipher.iv) },
+      key,
+      base64.decode(parsed.data)
+    );
+
+    return utf8.encode(new Uint8Array(data));
+  } catch {
+    throw new PasswordError(); // AES-GCM authentication failed
+  }
+}
+
+export function getVaultVersion(vault: string): number {
+  if (!vault.startsWith("{")) return LEGACY_VAULT_VERSION;
+  return (JSON.parse(vault) as Vault).version;
+}
+
+function decryptLegacy(vault: string, password: string): string {
+  try {
+    const secret = AES.decrypt(vault, password).toString(utf8Enc);
+    if (!secret) throw new PasswordError();
+
+    return secret;
+  } catch {
+    throw new PasswordError();
+  }
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey("raw", utf8.decode(password), "PBKDF2", false, [
+    "deriveKey"
+  ]);
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
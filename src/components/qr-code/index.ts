@@ -0,0 +1,2 @@
+export { default as AnimatedQrCode } from "./AnimatedQrCode.vue";
+export { default as QrCodeScanner } from "./QrCodeScanner.vue";
@@ -4,6 +4,10 @@ export { default as TransactionEntry } from "./TransactionEntry.vue";
 export { default as TransactionSignDialog } from "./TransactionSignDialog.vue";
 export { default as TransactionSign } from "./TransactionSign.vue";
 export { default as TransactionFeeConfig } from "./TransactionFeeConfig.vue";
+export { default as BatchRecipients } from "./BatchRecipients.vue";
+export { default as CoinControl } from "./CoinControl.vue";
+export { default as SpeedUpDialog } from "./SpeedUpDialog.vue";
+export { default as ColdSigningDialog } from "./ColdSigningDialog.vue";
 
 export const cardVariants = cva("", {
   variants: {
@@ -3,3 +3,5 @@ export * from "./useWebExtStorage";
 export * from "./useNumericMask";
 export * from "./useDateFormat";
 export * from "./useProgrammaticDialog";
+export * from "./useQrChunks";
+export * from "./useSession";
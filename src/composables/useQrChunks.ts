@@ -0,0 +1,31 @@
+import { computed, ref } from "vue";
+import { joinQrChunks, parseQrChunk, QrChunk } from "@/common/qrChunks";
+
+/**
+ * Collects the pages of an animated EIP-19 QR code as they are scanned, in any order.
+ * `data` is set once all pages are collected.
+ */
+export function useQrChunks(prefix: string) {
+  const chunks = ref<QrChunk[]>([]);
+
+  const pages = computed(() => chunks.value[0]?.pages ?? 0);
+  const data = computed(() => joinQrChunks(chunks.value));
+
+  /** Returns `false` if the content is not a page of the expected type. */
+  function add(content: string): boolean {
+    const chunk = parseQrChunk(prefix, content);
+    if (!chunk) return false;
+
+    // a different request is being scanned, start over
+    if (pages.value && pages.value !== chunk.pages) chunks.value = [];
+    if (!chunks.value.some((c) => c.page === chunk.page)) chunks.value.push(chunk);
+
+    return true;
+  }
+
+  function reset() {
+    chunks.value = [];
+  }
+
+  return { scanned: computed(() => chunks.value.length), pages, data, add, reset };
+}
@@ -0,0 +1,30 @@
+import { readonly, ref } from "vue";
+import { useIntervalFn } from "@vueuse/core";
+import { SESSION_CHECK_INTERVAL } from "@/constants/intervals";
+import type { SessionState } from "@/extension/background/session";
+import { getSessionState, lockSession } from "@/extension/connector/rpc/uiRpcHandlers";
+
+const state = ref<SessionState>({ walletIds: [], expiresAt: 0 });
+
+/**
+ * Tracks the unlocked session held by the background worker. The state is shared
+ * between components and refreshed periodically while any of them is mounted.
+ */
+export function useSession() {
+  useIntervalFn(refresh, SESSION_CHECK_INTERVAL, { immediateCallback: true });
+
+  async function refresh() {
+    state.value = await getSessionState();
+  }
+
+  async function lock() {
+    await lockSession();
+    await refresh();
+  }
+
+  function isUnlocked(walletId: number): boolean {
+    return state.value.walletIds.includes(walletId);
+  }
+
+  return { state: readonly(state), isUnlocked, refresh, lock };
+}
@@ -4,7 +4,7 @@ export const MAINNET = import.meta.env.NETWORK !== "testnet";
 export const NETWORK = MAINNET ? Network.Mainnet : Network.Testnet;
 export const ERG_TOKEN_ID = "0000000000000000000000000000000000000000000000000000000000000000";
 export const DEFAULT_WALLET_STRENGTH = 160;
-export const DERIVATION_PATH = "m/44'/429'/0'/0";
+export const ERGO_COIN_PATH = "m/44'/429'";
 export const ERG_DECIMALS = 9;
 export const SAFE_MIN_FEE_VALUE = 1100000;
 export const MIN_BOX_VALUE = 1000000;
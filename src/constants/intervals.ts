@@ -1,3 +1,6 @@
 export const MIN_SYNC_INTERVAL = 30000; // 30 seconds
 export const UTXO_CHECK_INTERVAL = 30000; // 30 seconds
 export const HEIGHT_CHECK_INTERVAL = 10000; // 10 seconds
+export const HEALTH_CHECK_INTERVAL = 60000; // one minute
+export const WALLETS_SYNC_INTERVAL = 60000; // one minute
+export const SESSION_CHECK_INTERVAL = 5000; // 5 seconds
@@ -1,4 +1,8 @@
-import { DEFAULT_SERVER_URL } from "@/chains/ergo/services/graphQlService";
+import {
+  DEFAULT_SERVER_URL,
+  FALLBACK_GRAPHQL_SERVERS
+} from "@/chains/ergo/services/graphQlService";
+import { DEFAULT_NODE_URL } from "@/chains/ergo/services/nodeService";
 import { MAINNET } from "./ergo";
 
 export const DEFAULT_SETTINGS = {
@@ -6,12 +10,17 @@ export const DEFAULT_SETTINGS = {
   isKyaAccepted: false,
   conversionCurrency: "usd",
   devMode: !MAINNET,
+  chainBackend: "graphql" as const,
   graphQLServer: DEFAULT_SERVER_URL,
+  nodeServer: DEFAULT_NODE_URL,
+  backupGraphQLServers: FALLBACK_GRAPHQL_SERVERS,
+  backupNodeServers: [] as string[],
   explorerUrl: MAINNET ? "https://sigmaspace.io/en" : "https://testnet.ergoplatform.com",
   ipfsGateway: "https://ipfs.io/ipfs/",
   hideBalances: false,
   blacklistedTokensLists: ["nsfw", "scam"],
   zeroConf: false,
+  sessionTimeout: 0,
   locale: "auto" as const,
   colorMode: "auto" as const,
   extension: { viewMode: "popup" as const }
@@ -1,5 +1,12 @@
 import { Component } from "vue";
-import { CombineIcon } from "lucide-vue-next";
+import {
+  CoinsIcon,
+  CombineIcon,
+  ImageIcon,
+  ScanQrCodeIcon,
+  SmartphoneNfcIcon,
+  UsersIcon
+} from "lucide-vue-next";
 import { PickupKeys } from "vue-i18n";
 import { ComponentProps } from "@/composables/useProgrammaticDialog";
 import { MessageSchema } from "@/i18n";
@@ -33,5 +40,30 @@ export const dappsManifest: DAppManifestItem[] = [
     tileKeypath: "walletOptimizer.title",
     icon: component(CombineIcon, { strokeWidth: 1 }),
     path: "/dapps/wallet-optimization"
+  },
+  {
+    tileKeypath: "tokenMinter.title",
+    icon: component(CoinsIcon, { strokeWidth: 1 }),
+    path: "/dapps/token-minter"
+  },
+  {
+    tileKeypath: "nftMinter.title",
+    icon: component(ImageIcon, { strokeWidth: 1 }),
+    path: "/dapps/nft-minter"
+  },
+  {
+    tileKeypath: "ergoPay.title",
+    icon: component(SmartphoneNfcIcon, { strokeWidth: 1 }),
+    path: "/dapps/ergopay"
+  },
+  {
+    tileKeypath: "coldSigner.title",
+    icon: component(ScanQrCodeIcon, { strokeWidth: 1 }),
+    path: "/dapps/cold-signer"
+  },
+  {
+    tileKeypath: "multisig.title",
+    icon: component(UsersIcon, { strokeWidth: 1 }),
+    path: "/dapps/multisig"
   }
 ];
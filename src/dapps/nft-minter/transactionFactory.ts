@@ -0,0 +1,66 @@
+import { EIP12UnsignedTransaction } from "@fleet-sdk/common";
+import { OutputBuilder, SAFE_MIN_BOX_VALUE, TransactionBuilder } from "@fleet-sdk/core";
+import { hex, utf8 } from "@fleet-sdk/crypto";
+import { SByte, SColl, SPair } from "@fleet-sdk/serializer";
+import { useAppStore } from "@/stores/appStore";
+import { useChainStore } from "@/stores/chainStore";
+import { useWalletStore } from "@/stores/walletStore";
+import { fetchBoxes } from "@/chains/ergo/boxFetcher";
+import {
+  safeGetChangeAddress,
+  setFee,
+  setSelectionAndChangeStrategy
+} from "@/chains/ergo/transaction/builder";
+import { AssetSubtype, FeeSettings } from "@/types/internal";
+
+export type NftMintingParams = {
+  name: string;
+  description: string;
+  type: AssetSubtype.PictureArtwork | AssetSubtype.AudioArtwork | AssetSubtype.VideoArtwork;
+  /** Hex encoded SHA-256 hash of the artwork file. */
+  hash: string;
+  url: string;
+  /** Optional preview image, mostly useful for audio and video artworks. */
+  cover?: string;
+};
+
+/**
+ * Mints an EIP-4 artwork NFT to the wallet's change address. Fleet's `mintToken` only
+ * fills R4-R6 if no other registers are set, so all registers are set explicitly:
+ * R7 holds the artwork type, R8 the content hash and R9 the URL, or a `(url, cover)`
+ * tuple when a cover is provided.
+ */
+export async function createNftMintingTransaction(
+  nft: NftMintingParams,
+  fee: FeeSettings
+): Promise<EIP12UnsignedTransaction> {
+  const app = useAppStore();
+  const chain = useChainStore();
+  const wallet = useWalletStore();
+  const recipient = safeGetChangeAddress();
+
+  const link = nft.cover
+    ? SPair(SColl(SByte, utf8.decode(nft.url)), SColl(SByte, utf8.decode(nft.cover)))
+    : SColl(SByte, utf8.decode(nft.url));
+
+  const unsigned = new TransactionBuilder(chain.height)
+    .from(await fetchBoxes(wallet.id, app.settings.zeroConf))
+    .to(
+      new OutputBuilder(SAFE_MIN_BOX_VALUE, recipient)
+        .mintToken({ name: nft.name, description: nft.description, decimals: 0, amount: 1n })
+        .setAdditionalRegisters({
+          R4: SColl(SByte, utf8.decode(nft.name)),
+          R5: SColl(SByte, utf8.decode(nft.description)),
+          R6: SColl(SByte, utf8.decode("0")),
+          R7: SColl(SByte, hex.decode(nft.type)),
+          R8: SColl(SByte, hex.decode(nft.hash)),
+          R9: link
+        })
+    )
+    .sendChangeTo(recipient);
+
+  await setFee(unsigned, fee);
+  setSelectionAndChangeStrategy(unsigned, wallet.type);
+
+  return unsigned.build().toEIP12Object();
+}
@@ -1,7 +1,7 @@
 import { AgeUSDBankBox, OracleBox, SIGMA_USD_PARAMETERS } from "@fleet-sdk/ageusd-plugin";
 import type { BoxSource } from "@fleet-sdk/blockchain-providers";
 import type { Box } from "@fleet-sdk/common";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
 
 export async function getBankBox(from: BoxSource): Promise<AgeUSDBankBox | undefined> {
   const tokenId = SIGMA_USD_PARAMETERS.tokens.stableCoinId;
@@ -23,7 +23,7 @@ async function getSingleton<T extends Box>(
   where: SingletonQuery,
   from: BoxSource
 ): Promise<T | undefined> {
-  for await (const chunk of graphQLService.streamBoxes({ where, from, take: 1 })) {
+  for await (const chunk of chainService.streamBoxes({ where, from, take: 1 })) {
     if (chunk.length) return chunk[0] as unknown as T;
   }
 }
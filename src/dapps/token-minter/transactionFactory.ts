@@ -0,0 +1,51 @@
+import { EIP12UnsignedTransaction } from "@fleet-sdk/common";
+import { OutputBuilder, SAFE_MIN_BOX_VALUE, TransactionBuilder } from "@fleet-sdk/core";
+import { useAppStore } from "@/stores/appStore";
+import { useChainStore } from "@/stores/chainStore";
+import { useWalletStore } from "@/stores/walletStore";
+import { fetchBoxes } from "@/chains/ergo/boxFetcher";
+import {
+  safeGetChangeAddress,
+  setFee,
+  setSelectionAndChangeStrategy
+} from "@/chains/ergo/transaction/builder";
+import { FeeSettings } from "@/types/internal";
+
+export type TokenMintingParams = {
+  name: string;
+  description: string;
+  decimals: number;
+  /** Emission amount in base units, i.e. already multiplied by `10^decimals`. */
+  amount: bigint;
+};
+
+/**
+ * Mints an EIP-4 token to the wallet's change address. Fleet's `mintToken` encodes
+ * the name, description and decimals as UTF-8 `Coll[Byte]` constants in R4, R5 and R6.
+ */
+export async function createTokenMintingTransaction(
+  token: TokenMintingParams,
+  fee: FeeSettings
+): Promise<EIP12UnsignedTransaction> {
+  const app = useAppStore();
+  const chain = useChainStore();
+  const wallet = useWalletStore();
+  const recipient = safeGetChangeAddress();
+
+  const unsigned = new TransactionBuilder(chain.height)
+    .from(await fetchBoxes(wallet.id, app.settings.zeroConf))
+    .to(
+      new OutputBuilder(SAFE_MIN_BOX_VALUE, recipient).mintToken({
+        name: token.name,
+        description: token.description,
+        decimals: token.decimals,
+        amount: token.amount
+      })
+    )
+    .sendChangeTo(recipient);
+
+  await setFee(unsigned, fee);
+  setSelectionAndChangeStrategy(unsigned, wallet.type);
+
+  return unsigned.build().toEIP12Object();
+}
@@ -1,4 +1,5 @@
 import { dbContext } from "@/database/dbContext";
+import type { Paginate } from "@/extension/connector/rpc/protocol";
 import { IDbAddress, IDbWallet } from "@/types/database";
 import { AddressState } from "@/types/internal";
 import { walletsDbService } from "./walletsDbService";
@@ -30,13 +31,20 @@ class AddressesDbService {
     return dbContext.addresses.where({ walletId }).sortBy("index");
   }
 
-  async getByState(walletId: number, state: AddressState): Promise<IDbAddress[]> {
-    const addresses = await dbContext.addresses
+  async getByState(
+    walletId: number,
+    state: AddressState,
+    paginate?: Paginate
+  ): Promise<IDbAddress[]> {
+    let collection = dbContext.addresses
       .orderBy("index")
-      .filter((a) => a.walletId === walletId && a.state == state)
-      .toArray();
+      .filter((a) => a.walletId === walletId && a.state == state);
+
+    if (paginate) {
+      collection = collection.offset(paginate.page * paginate.limit).limit(paginate.limit);
+    }
 
-    return addresses;
+    return collection.toArray();
   }
 
   async getChangeAddress(walletId: number): Promise<IDbAddress | undefined> {
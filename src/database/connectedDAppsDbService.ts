@@ -1,5 +1,6 @@
 import { dbContext } from "@/database/dbContext";
 import { IDbDAppConnection } from "@/types/database";
+import { DAppScope } from "@/types/internal";
 
 class ConnectedDAppsDbService {
   public async getByOrigin(origin: string): Promise<IDbDAppConnection | undefined> {
@@ -14,6 +15,14 @@ class ConnectedDAppsDbService {
     return dbContext.connectedDApps.put(connection, connection.origin);
   }
 
+  public async updateScopes(origin: string, scopes: DAppScope[]) {
+    return dbContext.connectedDApps.update(origin, { scopes });
+  }
+
+  public async updateWallet(origin: string, walletId: number) {
+    return dbContext.connectedDApps.update(origin, { walletId });
+  }
+
   public async deleteByOrigin(origin: string) {
     return dbContext.connectedDApps.delete(origin);
   }
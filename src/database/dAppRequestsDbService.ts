@@ -0,0 +1,14 @@
+import { dbContext } from "@/database/dbContext";
+import { IDbDAppRequest } from "@/types/database";
+
+class DAppRequestsDbService {
+  public async add(request: IDbDAppRequest): Promise<number> {
+    return dbContext.dAppRequests.add(request);
+  }
+
+  public async getAll(): Promise<IDbDAppRequest[]> {
+    return dbContext.dAppRequests.orderBy("timestamp").reverse().toArray();
+  }
+}
+
+export const dAppRequestsDbService = new DAppRequestsDbService();
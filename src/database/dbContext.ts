@@ -1,22 +1,28 @@
 import { Dexie, Table } from "dexie";
 import { uniqBy } from "es-toolkit";
+import { LEGACY_VAULT_VERSION } from "@/common/vault";
 import { ERG_TOKEN_ID } from "@/constants/ergo";
 import {
   IAssetInfo,
   IDbAddress,
   IDbAsset,
   IDbDAppConnection,
+  IDbDAppRequest,
+  IDbMultisigSession,
   IDbUtxo,
   IDbWallet
 } from "@/types/database";
+import { ALL_DAPP_SCOPES } from "@/types/internal";
 
 class NautilusDb extends Dexie {
   wallets!: Table<IDbWallet, number>;
   addresses!: Table<IDbAddress, string>;
   assets!: Table<IDbAsset, string[]>;
   connectedDApps!: Table<IDbDAppConnection, string>;
+  dAppRequests!: Table<IDbDAppRequest, number>;
   utxos!: Table<IDbUtxo, string>;
   assetInfo!: Table<IAssetInfo, string>;
+  multisigSessions!: Table<IDbMultisigSession, string>;
 
   constructor() {
     super("nautilusDb");
@@ -77,6 +83,30 @@ class NautilusDb extends Dexie {
           delete wallet.settings[hideUsedAddresses];
         });
     });
+
+    this.version(8).upgrade((tx) => {
+      // connections made before scopes were introduced keep full access
+      return tx
+        .table("connectedDApps")
+        .toCollection()
+        .modify((connection: IDbDAppConnection) => {
+          connection.scopes = [...ALL_DAPP_SCOPES];
+        });
+    });
+
+    this.version(9).stores({ dAppRequests: "++id, origin, timestamp" });
+
+    this.version(10).stores({ multisigSessions: "&id, walletId" });
+
+    this.version(11).upgrade((tx) => {
+      // existing mnemonics are upgraded the next time the password is entered
+      return tx
+        .table("wallets")
+        .toCollection()
+        .modify((wallet: IDbWallet) => {
+          if (wallet.mnemonic) wallet.vaultVersion = LEGACY_VAULT_VERSION;
+        });
+    });
   }
 }
 
@@ -0,0 +1,23 @@
+import { dbContext } from "@/database/dbContext";
+import { IDbMultisigSession } from "@/types/database";
+
+class MultisigSessionsDbService {
+  public async getById(id: string): Promise<IDbMultisigSession | undefined> {
+    return dbContext.multisigSessions.get(id);
+  }
+
+  public async getByWalletId(walletId: number): Promise<IDbMultisigSession[]> {
+    const sessions = await dbContext.multisigSessions.where({ walletId }).toArray();
+    return sessions.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  public async put(session: IDbMultisigSession): Promise<string> {
+    return dbContext.multisigSessions.put(session);
+  }
+
+  public async delete(id: string): Promise<void> {
+    return dbContext.multisigSessions.delete(id);
+  }
+}
+
+export const multisigSessionsDbService = new MultisigSessionsDbService();
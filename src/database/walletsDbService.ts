@@ -1,7 +1,4 @@
-import { isEmpty } from "@fleet-sdk/common";
-import AES from "crypto-js/aes";
-import utf8Enc from "crypto-js/enc-utf8";
-import { PasswordError } from "@/common/errors";
+import { decrypt, encrypt, LEGACY_VAULT_VERSION, VAULT_VERSION } from "@/common/vault";
 import { dbContext } from "@/database/dbContext";
 import { IDbWallet, NotNullId } from "@/types/database";
 import { WalletSettings } from "@/types/internal";
@@ -17,6 +14,10 @@ class WalletsDbService {
     return dbContext.wallets.where("id").equals(id).first() as Promise<NotNullId<IDbWallet>>;
   }
 
+  /**
+   * Decrypts the wallet's mnemonic. Mnemonics stored in an outdated vault format are
+   * re-encrypted on the way, for the wallet and all its sibling accounts.
+   */
   public async getMnemonic(id: number, password: string) {
     const wallet = await this.getById(id);
     if (!wallet) {
@@ -26,14 +27,23 @@ class WalletsDbService {
       throw Error("wallet doesn't have a mnemonic phrase");
     }
 
-    try {
-      const mnemonic = AES.decrypt(wallet.mnemonic, password).toString(utf8Enc);
-      if (isEmpty(mnemonic)) throw new PasswordError();
-
-      return mnemonic;
-    } catch {
-      throw new PasswordError();
+    const mnemonic = await decrypt(wallet.mnemonic, password);
+    if ((wallet.vaultVersion ?? LEGACY_VAULT_VERSION) < VAULT_VERSION) {
+      const vault = await encrypt(mnemonic, password);
+      await dbContext.wallets
+        .filter((w) => w.mnemonic === wallet.mnemonic)
+        .modify({ mnemonic: vault, vaultVersion: VAULT_VERSION });
     }
+
+    return mnemonic;
+  }
+
+  /** Decrypts the wallet's BIP-39 passphrase, if it has one. */
+  public async getPassphrase(id: number, password: string): Promise<string | undefined> {
+    const wallet = await this.getById(id);
+    if (!wallet?.passphrase) return;
+
+    return decrypt(wallet.passphrase, password);
   }
 
   public async getByPk(publicKey: string): Promise<NotNullId<IDbWallet> | undefined> {
@@ -42,6 +52,24 @@ class WalletsDbService {
     >;
   }
 
+  /**
+   * Returns all the accounts derived from the same mnemonic as the given wallet,
+   * including the wallet itself, ordered by account index.
+   */
+  public async getAccounts(id: number): Promise<NotNullId<IDbWallet>[]> {
+    const wallet = await this.getById(id);
+    if (!wallet) return [];
+    if (!wallet.mnemonic) return [wallet];
+
+    const accounts = await dbContext.wallets
+      .filter((w) => w.mnemonic === wallet.mnemonic)
+      .toArray();
+
+    return (accounts as NotNullId<IDbWallet>[]).sort(
+      (a, b) => (a.accountIndex ?? 0) - (b.accountIndex ?? 0)
+    );
+  }
+
   public async put(wallet: IDbWallet): Promise<number> {
     const dbWallet = await this.getByPk(wallet.publicKey);
     if (!wallet.id) wallet.id = dbWallet?.id;
@@ -63,6 +91,7 @@ class WalletsDbService {
       dbContext.assets.where({ walletId }).delete(),
       dbContext.connectedDApps.where({ walletId }).delete(),
       dbContext.utxos.where({ walletId }).delete(),
+      dbContext.multisigSessions.where({ walletId }).delete(),
       dbContext.wallets.delete(walletId)
     ]);
   }
@@ -1,13 +1,24 @@
 import { JsonValue } from "type-fest";
-import { BridgeMessage, GetDataType, GetReturnType, isInternalEndpoint } from "webext-bridge";
+import {
+  BridgeMessage,
+  Endpoint,
+  GetDataType,
+  GetReturnType,
+  isInternalEndpoint
+} from "webext-bridge";
 import { onMessage, sendMessage } from "webext-bridge/background";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { alarms } from "webextension-polyfill";
+import { ChainBackendSettings, chainService } from "@/chains/ergo/services/chainService";
+import { checkBackendHealth } from "@/chains/ergo/services/healthMonitor";
 import { browser } from "@/common/browser";
+import { log } from "@/common/logger";
 import { createWindow } from "@/common/uiHelpers";
 import { ERG_TOKEN_ID } from "@/constants/ergo";
+import { HEALTH_CHECK_INTERVAL, WALLETS_SYNC_INTERVAL } from "@/constants/intervals";
 import { addressesDbService } from "@/database/addressesDbService";
 import { connectedDAppsDbService } from "@/database/connectedDAppsDbService";
 import { APIErrorCode, TxSendErrorCode } from "@/types/connector";
+import { DAppScope } from "@/types/internal";
 import {
   AsyncRequest,
   AsyncRequestQueue,
@@ -18,8 +29,11 @@ import {
   error,
   InternalEvent,
   InternalRequest,
+  Paginate,
   success
 } from "../connector/rpc/protocol";
+import { registerContextMenus } from "./contextMenus";
+import { emitToConnections, emitToOrigins, watchWalletChanges } from "./dAppEvents";
 import {
   checkConnection,
   getAddresses,
@@ -27,6 +41,17 @@ import {
   getCurrentHeight,
   getUTxOs
 } from "./ergoHandlers";
+import { checkIncomingTransactions } from "./notifications";
+import { logRequest } from "./requestLog";
+import {
+  getSessionKey,
+  getSessionState,
+  lockSession,
+  SESSION_LOCK_ALARM,
+  unlockSession
+} from "./session";
+import { getSettings } from "./settings";
+import { syncAllWallets } from "./walletsSync";
 
 type AuthenticatedMessageHandler<T extends InternalRequest> = (
   // @ts-expect-error webext-bridge uses an older version of type-fest, so JsonValue is not recognized
@@ -34,7 +59,22 @@ type AuthenticatedMessageHandler<T extends InternalRequest> = (
   walletId: number
 ) => GetReturnType<T> | Promise<GetReturnType<T>>;
 
+const HEALTH_CHECK_ALARM = "health-check";
+const WALLETS_SYNC_ALARM = "wallets-sync";
+
 const NOT_CONNECTED_ERROR = error(APIErrorCode.InvalidRequest, "Not connected.");
+const OUT_OF_SCOPE_ERROR = error(APIErrorCode.Refused, "Permission not granted to this dApp.");
+
+const REQUIRED_SCOPES: Partial<Record<InternalRequest, DAppScope>> = {
+  [InternalRequest.GetUTxOs]: DAppScope.ReadBalance,
+  [InternalRequest.GetBalance]: DAppScope.ReadBalance,
+  [InternalRequest.GetAddresses]: DAppScope.ReadAddresses,
+  [InternalRequest.SignTx]: DAppScope.SignTransaction,
+  [InternalRequest.SignData]: DAppScope.SignData,
+  [InternalRequest.Auth]: DAppScope.SignData,
+  [InternalRequest.SubmitTransaction]: DAppScope.SubmitTransaction
+};
+
 const requests = new AsyncRequestQueue();
 
 function onMessageAuth<T extends InternalRequest>(
@@ -43,19 +83,31 @@ function onMessageAuth<T extends InternalRequest>(
 ) {
   onMessage(request, async (msg) => {
     if (!isInternalEndpoint(msg.sender)) return NOT_CONNECTED_ERROR as GetReturnType<T>;
-    const conn = await connectedDAppsDbService.getByOrigin(msg.data.payload.origin);
-    if (!conn) return NOT_CONNECTED_ERROR as GetReturnType<T>;
+    const { origin } = msg.data.payload;
+    const conn = await connectedDAppsDbService.getByOrigin(origin);
+    if (!conn)
+      return logRequest(request, origin, undefined, NOT_CONNECTED_ERROR as GetReturnType<T>);
+
+    const scope = REQUIRED_SCOPES[request];
+    if (scope && !conn.scopes.includes(scope)) {
+      return logRequest(request, origin, conn.walletId, OUT_OF_SCOPE_ERROR as GetReturnType<T>);
+    }
 
-    return handler(msg, conn.walletId);
+    const result = await handler(msg, conn.walletId);
+    return logRequest(request, origin, conn.walletId, result);
   });
 }
 
 onMessage(InternalRequest.Connect, async ({ data, sender }) => {
   if (!isInternalEndpoint(sender)) return false;
 
-  const authorized = await checkConnection(data.payload.origin);
+  const { origin } = data.payload;
+  const authorized = await checkConnection(origin);
   if (authorized) return true;
-  return await openWindow(InternalRequest.Connect, data, sender.tabId);
+
+  const approved = await openWindow(InternalRequest.Connect, data, sender.tabId);
+  const conn = await connectedDAppsDbService.getByOrigin(origin);
+  return logRequest(InternalRequest.Connect, origin, conn?.walletId, approved);
 });
 
 onMessage(InternalRequest.CheckConnection, async ({ sender, data }) => {
@@ -65,13 +117,21 @@ onMessage(InternalRequest.CheckConnection, async ({ sender, data }) => {
 
 onMessage(InternalRequest.Disconnect, async ({ sender, data }) => {
   if (!isInternalEndpoint(sender)) return false;
-  await connectedDAppsDbService.deleteByOrigin(data.payload.origin);
-  const connected = await checkConnection(data.payload.origin);
-  return !connected;
+
+  const { origin } = data.payload;
+  const conn = await connectedDAppsDbService.getByOrigin(origin);
+  await connectedDAppsDbService.deleteByOrigin(origin);
+  const connected = await checkConnection(origin);
+  if (!connected) emitToOrigins(InternalEvent.Disconnected, [origin]);
+
+  return logRequest(InternalRequest.Disconnect, origin, conn?.walletId, !connected);
 });
 
 onMessageAuth(InternalRequest.GetUTxOs, async ({ data }, walletId) => {
-  const utxos = await getUTxOs(walletId, data.target);
+  if (data.paginate && !isValidPagination(data.paginate))
+    return invalidRequest("Invalid pagination.");
+
+  const utxos = await getUTxOs(data.payload.origin, walletId, data.target, data.paginate);
   return success(utxos);
 });
 
@@ -82,7 +142,11 @@ onMessageAuth(InternalRequest.GetBalance, async (msg, walletId) => {
 });
 
 onMessageAuth(InternalRequest.GetAddresses, async (msg, walletId) => {
-  const addresses = await getAddresses(walletId, msg.data.filter);
+  if (msg.data.paginate && !isValidPagination(msg.data.paginate)) {
+    return invalidRequest("Invalid pagination.");
+  }
+
+  const addresses = await getAddresses(walletId, msg.data.filter, msg.data.paginate);
   if (msg.data.filter === "change" && !addresses) {
     return error(APIErrorCode.InternalError, "No addresses found.");
   }
@@ -101,7 +165,7 @@ onMessageAuth(InternalRequest.SubmitTransaction, async (msg, walletId) => {
   if (!msg.data.transaction) return invalidRequest("Invalid params.");
 
   try {
-    const response = await graphQLService.submitTransaction(msg.data.transaction, walletId);
+    const response = await chainService.submitTransaction(msg.data.transaction, walletId);
     return success(response.transactionId);
   } catch (e) {
     return error(TxSendErrorCode.Refused, (e as Error).message);
@@ -141,18 +205,97 @@ onMessage(InternalEvent.Loaded, async ({ sender }) => {
     if (!request) continue;
 
     const payload = { origin: request.origin, favicon: request.favicon };
-    const data = request.data ? { payload, ...request.data } : { payload };
+    const data = request.data ? { ...request.data, payload } : { payload };
 
     const result = await sendMessage(request.type, data, "popup");
     request.resolve(result);
   } while (request);
 });
 
-onMessage(InternalEvent.UpdatedBackendUrl, (msg) => {
+onMessage(InternalEvent.UpdatedBackend, (msg) => {
   if (!isInternalEndpoint(msg.sender) || !msg.data) return;
-  graphQLService.setUrl(msg.data);
+  chainService.configure(msg.data);
+  checkHealth(msg.data);
+});
+
+onMessage(InternalEvent.UpdatedConnection, async (msg) => {
+  if (!isInternalEndpoint(msg.sender) || !msg.data) return;
+
+  const { origin } = msg.data;
+  const conn = await connectedDAppsDbService.getByOrigin(origin);
+  if (conn) emitToConnections(InternalEvent.WalletSwitched, (x) => x.origin === origin);
+  else emitToOrigins(InternalEvent.Disconnected, [origin]);
+});
+
+// session keys are only handed to extension pages, content scripts run in the dApp's renderer
+onMessage(InternalRequest.UnlockSession, ({ sender, data }) => {
+  if (!isExtensionPage(sender)) return false;
+  return unlockSession(data.walletId, data.key);
+});
+
+onMessage(InternalRequest.LockSession, ({ sender }) => {
+  if (!isExtensionPage(sender)) return;
+  return lockSession();
+});
+
+onMessage(InternalRequest.GetSessionKey, ({ sender, data }) => {
+  if (!isExtensionPage(sender)) return;
+  return getSessionKey(data.walletId);
+});
+
+onMessage(InternalRequest.GetSessionState, ({ sender }) => {
+  if (!isExtensionPage(sender)) return { walletIds: [], expiresAt: 0 };
+  return getSessionState();
 });
 
+alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === HEALTH_CHECK_ALARM) checkHealth();
+  else if (alarm.name === WALLETS_SYNC_ALARM) syncWallets();
+  else if (alarm.name === SESSION_LOCK_ALARM) lockSession();
+});
+
+schedule(HEALTH_CHECK_ALARM, HEALTH_CHECK_INTERVAL);
+schedule(WALLETS_SYNC_ALARM, WALLETS_SYNC_INTERVAL);
+
+watchWalletChanges();
+registerContextMenus();
+
+start();
+
+async function start() {
+  const settings = await getSettings();
+  chainService.configure(settings);
+
+  await checkHealth(settings);
+  await syncWallets();
+}
+
+async function checkHealth(settings?: ChainBackendSettings) {
+  try {
+    await checkBackendHealth(settings ?? (await getSettings()));
+  } catch (e) {
+    log.error("Failed to check the backend health", e);
+  }
+}
+
+async function syncWallets() {
+  try {
+    await syncAllWallets();
+    await checkIncomingTransactions();
+  } catch (e) {
+    log.error("Failed to synchronize wallets", e);
+  }
+}
+
+/**
+ * Alarms survive service worker suspensions, unlike timers, so they are only
+ * created if not already scheduled by a previous worker instance.
+ */
+async function schedule(name: string, interval: number) {
+  if (await alarms.get(name)) return;
+  alarms.create(name, { periodInMinutes: interval / 60_000 });
+}
+
 async function openWindow<T extends AsyncRequestType>(
   request: T,
   data: DataWithPayload,
@@ -165,6 +308,7 @@ async function openWindow<T extends AsyncRequestType>(
   const promise = requests.push<GetReturnType<T>>({
     type: request,
     origin: data.payload.origin,
+    favicon: data.payload.favicon,
     data
   });
 
@@ -176,6 +320,14 @@ async function getFavicon(tabId: number) {
   return (await browser?.tabs.get(tabId))?.favIconUrl;
 }
 
+function isExtensionPage(sender: Endpoint) {
+  return sender.context === "popup" || sender.context === "options";
+}
+
 function invalidRequest(info: string) {
   return error(APIErrorCode.InvalidRequest, info);
 }
+
+function isValidPagination({ page, limit }: Paginate) {
+  return Number.isSafeInteger(page) && page >= 0 && Number.isSafeInteger(limit) && limit > 0;
+}
@@ -0,0 +1,43 @@
+import { contextMenus, runtime, storage } from "webextension-polyfill";
+import { isErgoPayUrl } from "@/chains/ergo/ergoPay";
+import { createWindow } from "@/common/uiHelpers";
+import { getTranslator } from "./i18n";
+import { SETTINGS_KEY } from "./settings";
+
+const ERGO_PAY_MENU_ID = "ergopay";
+
+/**
+ * Adds an "Open with Nautilus" entry to the link context menu. Custom schemes are
+ * not valid match patterns, so links are filtered on click instead. The title is
+ * translated again when the settings change, as the locale may have changed.
+ */
+export function registerContextMenus() {
+  runtime.onInstalled.addListener(async () => {
+    contextMenus.create({
+      id: ERGO_PAY_MENU_ID,
+      title: await getMenuTitle(),
+      contexts: ["link"]
+    });
+  });
+
+  storage.onChanged.addListener(async (changes, area) => {
+    if (area !== "local" || !changes[SETTINGS_KEY]) return;
+    contextMenus.update(ERGO_PAY_MENU_ID, { title: await getMenuTitle() });
+  });
+
+  contextMenus.onClicked.addListener((info, tab) => {
+    if (info.menuItemId !== ERGO_PAY_MENU_ID || !info.linkUrl || !isErgoPayUrl(info.linkUrl)) {
+      return;
+    }
+
+    createWindow(
+      tab?.id,
+      `popup/index.html#/dapps/ergopay?url=${encodeURIComponent(info.linkUrl)}`
+    );
+  });
+}
+
+async function getMenuTitle() {
+  const t = await getTranslator();
+  return t("dapps.ergoPay.openWithNautilus");
+}
@@ -0,0 +1,91 @@
+import { sendMessage } from "webext-bridge/background";
+import { storage, tabs } from "webextension-polyfill";
+import { parseSyncStateKey, WalletSyncState } from "@/chains/ergo/walletSync";
+import { log } from "@/common/logger";
+import { connectedDAppsDbService } from "@/database/connectedDAppsDbService";
+import { IDbDAppConnection } from "@/types/database";
+import { DAppScope } from "@/types/internal";
+import { InternalEvent } from "../connector/rpc/protocol";
+import { dropUTxOCursors } from "./ergoHandlers";
+
+type DAppEventMessage =
+  | InternalEvent.Disconnected
+  | InternalEvent.WalletSwitched
+  | InternalEvent.AddressesChanged
+  | InternalEvent.BalanceChanged
+  | InternalEvent.HeightChanged;
+
+/**
+ * Relays an event to the content scripts of the open tabs connected to a dApp
+ * matching `filter`.
+ */
+export async function emitToConnections(
+  event: DAppEventMessage,
+  filter: (connection: IDbDAppConnection) => boolean,
+  data?: number
+) {
+  const connections = (await connectedDAppsDbService.getAll()).filter(filter);
+  await emitToOrigins(
+    event,
+    connections.map((x) => x.origin),
+    data
+  );
+}
+
+/**
+ * Relays an event to the content scripts of the open tabs of the given origins.
+ */
+export async function emitToOrigins(event: DAppEventMessage, origins: string[], data?: number) {
+  if (origins.length === 0) return;
+
+  for (const tab of await tabs.query({})) {
+    if (!tab.id || !tab.url || !origins.includes(getHost(tab.url))) continue;
+
+    sendMessage(event, data, { context: "content-script", tabId: tab.id }).catch((e) =>
+      log.debug(`Failed to emit '${event}' to tab ${tab.id}`, e)
+    );
+  }
+}
+
+/**
+ * Emits balance and addresses changes based on the synchronization state
+ * published by `syncWallet`, regardless of the context that synced the wallet.
+ * Open `get_utxos` cursors of synced wallets are dropped as well.
+ */
+export function watchWalletChanges() {
+  storage.onChanged.addListener((changes, area) => {
+    if (area !== "local") return;
+
+    for (const key in changes) {
+      const walletId = parseSyncStateKey(key);
+      const state = changes[key].newValue as WalletSyncState | undefined;
+      if (walletId === undefined || !state) continue;
+
+      dropUTxOCursors(walletId);
+
+      if (state.balanceChanged) {
+        emitToConnections(InternalEvent.BalanceChanged, (c) =>
+          isGranted(c, walletId, DAppScope.ReadBalance)
+        );
+      }
+
+      if (state.addressesChanged) {
+        emitToConnections(InternalEvent.AddressesChanged, (c) =>
+          isGranted(c, walletId, DAppScope.ReadAddresses)
+        );
+      }
+    }
+  });
+}
+
+function isGranted(connection: IDbDAppConnection, walletId: number, scope: DAppScope) {
+  return connection.walletId === walletId && connection.scopes.includes(scope);
+}
+
+function getHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "";
+  }
+}
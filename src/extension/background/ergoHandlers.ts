@@ -1,26 +1,127 @@
+import type { BoxSource, ChainProviderBox } from "@fleet-sdk/blockchain-providers";
 import { Box, isDefined, some, utxoSum } from "@fleet-sdk/common";
 import { BoxSelector, ErgoUnsignedInput } from "@fleet-sdk/core";
 import type { AssetBalance, SelectionTarget } from "@nautilus-js/eip12-types";
 import { groupBy } from "es-toolkit";
 import { fetchBoxes } from "@/chains/ergo/boxFetcher";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
 import { bn, sumBy } from "@/common/bigNumber";
 import { ERG_TOKEN_ID } from "@/constants/ergo";
 import { addressesDbService } from "@/database/addressesDbService";
 import { assetsDbService } from "@/database/assetsDbService";
 import { connectedDAppsDbService } from "@/database/connectedDAppsDbService";
+import { utxosDbService } from "@/database/utxosDbService";
 import { AddressState } from "@/types/internal";
-import type { AddressType } from "../connector/rpc/protocol";
+import type { AddressType, Paginate } from "../connector/rpc/protocol";
 import { getSettings } from "./settings";
 
+type UTxOCursor = {
+  target: string;
+  stream: AsyncIterator<ChainProviderBox<string>[]>;
+  boxes: ChainProviderBox<string>[];
+  lockedIds: Set<string>;
+  done: boolean;
+  selection?: Box<string>[];
+};
+
+/** Paginated `get_utxos` reads in progress, indexed by wallet id and origin. */
+const cursors = new Map<number, Map<string, UTxOCursor>>();
+
 export async function checkConnection(origin: string) {
   const connection = await connectedDAppsDbService.getByOrigin(origin);
   return isDefined(connection) && isDefined(connection.walletId);
 }
 
-export async function getUTxOs(walletId: number, target?: SelectionTarget): Promise<Box<string>[]> {
+/**
+ * Paginated calls open a cursor on the first page and stream the wallet's boxes from
+ * the chain provider only as far as the requested page, or the selection target,
+ * needs. Following pages continue from the same cursor, so dApps walking through
+ * the pages get a consistent list.
+ */
+export async function getUTxOs(
+  origin: string,
+  walletId: number,
+  target?: SelectionTarget,
+  paginate?: Paginate
+): Promise<Box<string>[]> {
+  if (!paginate) {
+    const settings = await getSettings();
+    return selectUTxOs(await fetchBoxes(walletId, settings.zeroConf), target);
+  }
+
+  const walletCursors = cursors.get(walletId) ?? new Map<string, UTxOCursor>();
+  cursors.set(walletId, walletCursors);
+
+  const targetKey = JSON.stringify(target ?? null);
+  let cursor = walletCursors.get(origin);
+  if (paginate.page === 0 || !cursor || cursor.target !== targetKey) {
+    cursor = await openCursor(walletId, targetKey);
+    walletCursors.set(origin, cursor);
+  }
+
+  const start = paginate.page * paginate.limit;
+  const end = start + paginate.limit;
+  if (target) {
+    cursor.selection ??= await readSelection(cursor, target);
+    return cursor.selection.slice(start, end);
+  }
+
+  while (cursor.boxes.length < end && !cursor.done) await readNext(cursor);
+  return cursor.boxes.slice(start, end).map((box) => ({
+    ...new ErgoUnsignedInput(box).toPlainObject("EIP-12"),
+    confirmed: box.confirmed
+  }));
+}
+
+/**
+ * Drops the wallet's cursors, as the boxes they were opened on may have been spent.
+ */
+export function dropUTxOCursors(walletId: number) {
+  cursors.delete(walletId);
+}
+
+async function openCursor(walletId: number, target: string): Promise<UTxOCursor> {
   const settings = await getSettings();
-  const boxes = await fetchBoxes(walletId, settings.zeroConf);
+  const addresses = await addressesDbService.getByWalletId(walletId);
+  const localBoxes = await utxosDbService.getByWalletId(walletId);
+  const from: BoxSource = settings.zeroConf ? "blockchain+mempool" : "blockchain";
+  const stream = chainService.streamBoxes({
+    where: { addresses: addresses.map((x) => x.script) },
+    from
+  });
+
+  return {
+    target,
+    stream: stream[Symbol.asyncIterator](),
+    boxes: localBoxes.filter((x) => !x.locked && x.content).map((x) => x.content!),
+    lockedIds: new Set(localBoxes.filter((x) => x.locked).map((x) => x.id)),
+    done: false
+  };
+}
+
+async function readNext(cursor: UTxOCursor) {
+  const chunk = await cursor.stream.next();
+  if (chunk.done) {
+    cursor.done = true;
+    return;
+  }
+
+  const known = new Set(cursor.boxes.map((box) => box.boxId));
+  cursor.boxes.push(
+    ...chunk.value.filter((box) => !cursor.lockedIds.has(box.boxId) && !known.has(box.boxId))
+  );
+}
+
+async function readSelection(cursor: UTxOCursor, target: SelectionTarget) {
+  for (;;) {
+    const selection = selectUTxOs(cursor.boxes, target);
+    if (selection.length > 0 || cursor.done) return selection;
+
+    await readNext(cursor);
+  }
+}
+
+function selectUTxOs(boxes: ChainProviderBox<string>[], target?: SelectionTarget): Box<string>[] {
   const selector = new BoxSelector(boxes.map((box) => new ErgoUnsignedInput(box))).orderBy(
     (box) => box.creationHeight
   );
@@ -91,7 +192,7 @@ async function getRemoteBalance(
     .getByWalletId(walletId)
     .then((addresses) => addresses.map((x) => x.script));
 
-  const utxos = await graphQLService.getBoxes({
+  const utxos = await chainService.getBoxes({
     where: {
       addresses,
       tokenId: tokenId === "all" || tokenId === ERG_TOKEN_ID ? undefined : tokenId
@@ -112,17 +213,17 @@ async function getRemoteBalance(
   }
 }
 
-export async function getAddresses(walletId: number, filter: AddressType) {
+export async function getAddresses(walletId: number, filter: AddressType, paginate?: Paginate) {
   if (filter === "change") {
     const address = await addressesDbService.getChangeAddress(walletId);
     return address?.script;
   }
 
   const state = filter === "used" ? AddressState.Used : AddressState.Unused;
-  const addresses = await addressesDbService.getByState(walletId, state);
+  const addresses = await addressesDbService.getByState(walletId, state, paginate);
   return addresses.map((x) => x.script);
 }
 
 export async function getCurrentHeight() {
-  return graphQLService.getHeight();
+  return chainService.getHeight();
 }
@@ -0,0 +1,36 @@
+import { createI18n } from "vue-i18n";
+import type { Composer } from "vue-i18n";
+import type { MessageSchema, Translator } from "@/i18n";
+import { DEFAULT_LOCALE, fallback } from "@/i18n/fallback";
+import enUS from "@/i18n/locales/en-US.json";
+import idID from "@/i18n/locales/id-ID.json";
+import ptBR from "@/i18n/locales/pt-BR.json";
+import ruRU from "@/i18n/locales/ru-RU.json";
+import { russianPluralRules } from "@/i18n/plural-rules/ru";
+import { getSettings } from "./settings";
+
+// service workers can't import modules dynamically, so all locales are bundled
+const MESSAGES = { "en-US": enUS, "pt-BR": ptBR, "ru-RU": ruRU, "id-ID": idID };
+
+/**
+ * Creates a translator for the locale set by the user, as the background worker
+ * has no app instance to share the popup's one.
+ */
+export async function getTranslator(): Promise<Translator> {
+  const { locale } = await getSettings();
+  const lang = fallback(locale === "auto" ? navigator.language : locale, Object.keys(MESSAGES));
+  const i18n = createI18n({
+    legacy: false,
+    locale: lang,
+    fallbackLocale: DEFAULT_LOCALE,
+    messages: { [DEFAULT_LOCALE]: enUS },
+    pluralRules: { "ru-RU": russianPluralRules }
+  });
+
+  const global = i18n.global as Composer;
+  if (lang !== DEFAULT_LOCALE) {
+    global.setLocaleMessage(lang, MESSAGES[lang as keyof typeof MESSAGES] as MessageSchema);
+  }
+
+  return global.t;
+}
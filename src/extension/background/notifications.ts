@@ -0,0 +1,136 @@
+import { uniq } from "@fleet-sdk/common";
+import { ErgoAddress } from "@fleet-sdk/core";
+import { notifications, runtime, storage } from "webextension-polyfill";
+import { chainService } from "@/chains/ergo/services/chainService";
+import { summarizeTransaction } from "@/chains/ergo/transaction/summarizer";
+import { bn, decimalize } from "@/common/bigNumber";
+import { log } from "@/common/logger";
+import { useFormat } from "@/composables/useFormat";
+import { ERG_DECIMALS } from "@/constants/ergo";
+import { addressesDbService } from "@/database/addressesDbService";
+import { assetInfoDbService } from "@/database/assetInfoDbService";
+import { walletsDbService } from "@/database/walletsDbService";
+import { IAssetInfo, IDbWallet, NotNullId } from "@/types/database";
+import { ConfirmedTransactionSummary, UnconfirmedTransactionSummary } from "@/types/transactions";
+import { getTranslator } from "./i18n";
+
+const NOTIFIED_STORAGE_KEY = "notifiedTransactions";
+const MAX_TRACKED_TRANSACTIONS = 200;
+
+/** Ids of the transactions already notified, indexed by wallet id. */
+type NotifiedTransactions = Record<number, string[]>;
+
+const format = useFormat();
+let checking: Promise<void> | undefined;
+
+/**
+ * Looks for new incoming transactions, both in the mempool and confirmed, on every
+ * wallet with notifications enabled and raises a native notification for each one.
+ */
+export function checkIncomingTransactions(): Promise<void> {
+  if (!checking) checking = runCheck().finally(() => (checking = undefined));
+  return checking;
+}
+
+async function runCheck() {
+  const wallets = await walletsDbService.getAll();
+  const enabled = wallets.filter((w) => w.settings.notifications?.enabled);
+  if (enabled.length === 0) return;
+
+  const notified = await getNotified();
+  for (const wallet of enabled) {
+    try {
+      notified[wallet.id] = await checkWallet(wallet, notified[wallet.id]);
+    } catch (e) {
+      log.error(`Failed to check incoming transactions for wallet 'id:${wallet.id}'`, e);
+    }
+  }
+
+  await storage.local.set({ [NOTIFIED_STORAGE_KEY]: JSON.stringify(notified) });
+}
+
+async function checkWallet(wallet: NotNullId<IDbWallet>, notified?: string[]): Promise<string[]> {
+  const addresses = (await addressesDbService.getByWalletId(wallet.id)).map((x) => x.script);
+  if (addresses.length === 0) return notified ?? [];
+
+  const ergoTrees = new Set(addresses.map((x) => ErgoAddress.decodeUnsafe(x).ergoTree));
+  const query = { where: { addresses } };
+  const [unconfirmed, confirmed] = await Promise.all([
+    chainService.getUnconfirmedTransactions(query),
+    chainService.streamConfirmedTransactions(query).next()
+  ]);
+
+  const summaries = [
+    ...unconfirmed.map((tx) => summarizeTransaction(tx, ergoTrees)),
+    ...(confirmed.value ?? []).map((tx) => summarizeTransaction(tx, ergoTrees))
+  ];
+
+  // the first check only records the current transactions to avoid notifying old ones
+  if (notified) {
+    const seen = new Set(notified);
+    for (const summary of summaries) {
+      if (seen.has(summary.transactionId)) continue;
+      seen.add(summary.transactionId);
+      await notify(wallet, summary);
+    }
+  }
+
+  const txIds = uniq([...summaries.map((x) => x.transactionId), ...(notified ?? [])]);
+  return txIds.slice(0, MAX_TRACKED_TRANSACTIONS);
+}
+
+async function notify(
+  wallet: NotNullId<IDbWallet>,
+  summary: ConfirmedTransactionSummary | UnconfirmedTransactionSummary
+) {
+  const tokenIds = wallet.settings.notifications?.tokenIds ?? [];
+  const tokens = summary.delta.tokens.filter((x) => x.amount > 0n && tokenIds.includes(x.tokenId));
+  const nanoErgs = summary.delta.nanoErgs > 0n ? summary.delta.nanoErgs : 0n;
+  if (nanoErgs === 0n && tokens.length === 0) return;
+
+  const metadata = await getMetadata(tokens.map((x) => x.tokenId));
+  const amounts = tokens.map((token) => {
+    const info = metadata.find((x) => x.id === token.tokenId);
+    const amount = decimalize(bn(token.amount.toString()), info?.decimals ?? 0);
+    return format.number.namedCurrency(amount, info?.name ?? format.asset.id(token.tokenId));
+  });
+
+  if (nanoErgs > 0n) {
+    amounts.unshift(
+      format.number.namedCurrency(decimalize(bn(nanoErgs.toString()), ERG_DECIMALS), "ERG")
+    );
+  }
+
+  const t = await getTranslator();
+  const { confirmed } = summary;
+  await notifications.create(`${wallet.id}:${summary.transactionId}`, {
+    type: "basic",
+    iconUrl: runtime.getURL(runtime.getManifest().icons?.["128"] ?? ""),
+    title: confirmed
+      ? t("transaction.notification.fundsReceived", { wallet: wallet.name })
+      : t("transaction.notification.incoming", { wallet: wallet.name }),
+    message: confirmed
+      ? amounts.join(", ")
+      : t("transaction.notification.pending", { amounts: amounts.join(", ") })
+  });
+}
+
+async function getMetadata(tokenIds: string[]): Promise<IAssetInfo[]> {
+  if (tokenIds.length === 0) return [];
+
+  const stored = await assetInfoDbService.getAnyOf(tokenIds);
+  const missing = tokenIds.filter((id) => !stored.some((x) => x.id === id));
+  if (missing.length === 0) return stored;
+
+  const fetched = (await chainService.getAssetsMetadata(missing)) ?? [];
+  if (fetched.length > 0) await assetInfoDbService.bulkPut(fetched);
+
+  return [...stored, ...fetched];
+}
+
+async function getNotified(): Promise<NotifiedTransactions> {
+  const stored = await storage.local.get(NOTIFIED_STORAGE_KEY);
+  const raw = stored[NOTIFIED_STORAGE_KEY] as string | undefined;
+
+  return raw ? (JSON.parse(raw) as NotifiedTransactions) : {};
+}
@@ -0,0 +1,79 @@
+import { log } from "@/common/logger";
+import { dAppRequestsDbService } from "@/database/dAppRequestsDbService";
+import { APIErrorCode, SignErrorCode } from "@/types/connector";
+import { DAppRequestOutcome, IDbDAppRequest } from "@/types/database";
+import { InternalRequest, Result } from "../connector/rpc/protocol";
+
+type LoggedResult = Result<unknown> | boolean;
+
+const SIGNING_REQUESTS = [
+  InternalRequest.SignTx,
+  InternalRequest.SignTxInputs,
+  InternalRequest.SignData,
+  InternalRequest.Auth
+];
+
+/** Read-only requests dApps poll, only logged when refused. */
+const READ_REQUESTS = [
+  InternalRequest.GetUTxOs,
+  InternalRequest.GetBalance,
+  InternalRequest.GetAddresses,
+  InternalRequest.GetCurrentHeight
+];
+
+/**
+ * Persists a connector request along with its outcome, so it's possible to
+ * reconstruct later what a dApp asked for and what was approved. Reads are
+ * skipped unless refused, so polling dApps don't evict signing records.
+ *
+ * @returns the unchanged `result`, for chaining.
+ */
+export async function logRequest<T extends LoggedResult>(
+  request: InternalRequest,
+  origin: string,
+  walletId: number | undefined,
+  result: T
+): Promise<T> {
+  const outcome = getOutcome(request, result);
+  if (READ_REQUESTS.includes(request) && outcome !== "refused") return result;
+
+  const entry: IDbDAppRequest = {
+    origin,
+    method: request.replace(/^int:/, ""),
+    walletId,
+    timestamp: Date.now(),
+    outcome
+  };
+
+  if (typeof result !== "boolean") {
+    if (result.success) entry.transactionId = getTransactionId(request, result.data);
+    else entry.error = result.error.info;
+  }
+
+  try {
+    await dAppRequestsDbService.add(entry);
+  } catch (e) {
+    log.error("Failed to log dApp request", e);
+  }
+
+  return result;
+}
+
+function getOutcome(request: InternalRequest, result: LoggedResult): DAppRequestOutcome {
+  if (typeof result === "boolean") return result ? "approved" : "refused";
+  if (result.success) return "approved";
+
+  // error codes overlap between APIs, so signing ones are only checked for signing requests
+  const { code } = result.error;
+  if (code === APIErrorCode.Refused) return "refused";
+  if (SIGNING_REQUESTS.includes(request) && code === SignErrorCode.UserDeclined) return "refused";
+
+  return "failed";
+}
+
+function getTransactionId(request: InternalRequest, data: unknown): string | undefined {
+  if (request === InternalRequest.SubmitTransaction && typeof data === "string") return data;
+  if (request === InternalRequest.SignTx && data && typeof data === "object" && "id" in data) {
+    return data.id as string;
+  }
+}
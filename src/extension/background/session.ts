@@ -0,0 +1,79 @@
+import { alarms, storage } from "webextension-polyfill";
+import { getSettings } from "./settings";
+
+export const SESSION_LOCK_ALARM = "session-lock";
+
+const SESSION_KEY = "session";
+
+type Session = {
+  /** Change level (`.../0`) extended private keys, indexed by wallet id. */
+  keys: Record<number, string>;
+  /** Idle timeout, in milliseconds. */
+  timeout: number;
+  expiresAt: number;
+};
+
+export type SessionState = { walletIds: number[]; expiresAt: number };
+
+/**
+ * Keeps the key of a wallet unlocked until the session is idle for longer than the
+ * configured timeout. Returns `false` if unlocked sessions are disabled.
+ *
+ * Keys are held in the `session` storage area, which lives in memory only and, unlike
+ * module state, survives service worker suspensions. It's not exposed to content scripts.
+ */
+export async function unlockSession(walletId: number, key: string): Promise<boolean> {
+  const { sessionTimeout } = await getSettings();
+  if (!sessionTimeout) return false;
+
+  const session = (await getActiveSession()) ?? { keys: {}, timeout: 0, expiresAt: 0 };
+  session.keys[walletId] = key;
+  session.timeout = sessionTimeout * 60_000;
+  await touch(session);
+
+  return true;
+}
+
+/**
+ * Returns the unlocked key of a wallet, if any, and postpones the session expiration.
+ */
+export async function getSessionKey(walletId: number): Promise<string | undefined> {
+  const session = await getActiveSession();
+  const key = session?.keys[walletId];
+  if (!session || !key) return;
+
+  await touch(session);
+  return key;
+}
+
+export async function getSessionState(): Promise<SessionState> {
+  const session = await getActiveSession();
+  if (!session) return { walletIds: [], expiresAt: 0 };
+
+  return { walletIds: Object.keys(session.keys).map(Number), expiresAt: session.expiresAt };
+}
+
+export async function lockSession(): Promise<void> {
+  await storage.session.remove(SESSION_KEY);
+  await alarms.clear(SESSION_LOCK_ALARM);
+}
+
+async function getActiveSession(): Promise<Session | undefined> {
+  const stored = await storage.session.get(SESSION_KEY);
+  const session = stored[SESSION_KEY] as Session | undefined;
+  if (!session) return;
+
+  // alarms can fire late, so the expiration is also checked on every read
+  if (session.expiresAt <= Date.now()) {
+    await lockSession();
+    return;
+  }
+
+  return session;
+}
+
+async function touch(session: Session) {
+  session.expiresAt = Date.now() + session.timeout;
+  await storage.session.set({ [SESSION_KEY]: session });
+  alarms.create(SESSION_LOCK_ALARM, { when: session.expiresAt });
+}
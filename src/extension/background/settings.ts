@@ -4,7 +4,7 @@ import type { Settings } from "@/stores/appStore";
 import { DEFAULT_SETTINGS } from "@/constants/settings";
 
 const serializer = StorageSerializers.object;
-const SETTINGS_KEY = "settings";
+export const SETTINGS_KEY = "settings";
 
 /**
  * Get the settings from the storage
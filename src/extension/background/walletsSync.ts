@@ -0,0 +1,38 @@
+import { chainService } from "@/chains/ergo/services/chainService";
+import { syncWallet } from "@/chains/ergo/walletSync";
+import { log } from "@/common/logger";
+import { walletsDbService } from "@/database/walletsDbService";
+import { InternalEvent } from "../connector/rpc/protocol";
+import { emitToConnections } from "./dAppEvents";
+
+let lastHeight = 0;
+let syncing: Promise<void> | undefined;
+
+/**
+ * Synchronizes every wallet each time a new block is found, so the data served
+ * to dApps stays fresh even while the UI is closed. Open popups get notified
+ * through the sync state stored by `syncWallet`.
+ */
+export function syncAllWallets(): Promise<void> {
+  if (!syncing) syncing = runSync().finally(() => (syncing = undefined));
+  return syncing;
+}
+
+async function runSync() {
+  const height = await chainService.getHeight();
+  if (!height || height === lastHeight) return;
+
+  emitToConnections(InternalEvent.HeightChanged, () => true, height);
+
+  const wallets = await walletsDbService.getAll();
+  for (const wallet of wallets) {
+    try {
+      const result = await syncWallet(wallet);
+      if (result) await walletsDbService.updateSettings(wallet.id, { lastSynced: result.syncedAt });
+    } catch (e) {
+      log.error(`Failed to synchronize wallet 'id:${wallet.id}'`, e);
+    }
+  }
+
+  lastHeight = height;
+}
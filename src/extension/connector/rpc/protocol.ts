@@ -31,19 +31,48 @@ export const enum InternalRequest {
   SignTxInputs = "int:sign-tx-input",
   SignData = "int:sign-data",
   Auth = "int:auth",
-  SubmitTransaction = "int:submit-transaction"
+  SubmitTransaction = "int:submit-transaction",
+
+  UnlockSession = "int:unlock-session",
+  LockSession = "int:lock-session",
+  GetSessionKey = "int:get-session-key",
+  GetSessionState = "int:get-session-state"
 }
 
 export const enum InternalEvent {
   Loaded = "int:loaded",
   Disconnected = "int:disconnected",
-  UpdatedBackendUrl = "int:backend-host-updated"
+  UpdatedBackend = "int:backend-updated",
+  UpdatedConnection = "int:connection-updated",
+  WalletSwitched = "int:wallet-switched",
+  AddressesChanged = "int:addresses-changed",
+  BalanceChanged = "int:balance-changed",
+  HeightChanged = "int:height-changed"
 }
 
 export const enum ExternalEvent {
-  Injected = "ergo-wallet:injected"
+  Injected = "ergo-wallet:injected",
+  Disconnected = "ext:disconnected",
+  WalletSwitched = "ext:wallet-switched",
+  AddressesChanged = "ext:addresses-changed",
+  BalanceChanged = "ext:balance-changed",
+  HeightChanged = "ext:height-changed"
 }
 
+/**
+ * Events dApps can subscribe to through `ergo.on()`, mapped to the
+ * messages relayed by the content script.
+ */
+export const DAPP_EVENTS = {
+  disconnected: ExternalEvent.Disconnected,
+  wallet_switched: ExternalEvent.WalletSwitched,
+  addresses_changed: ExternalEvent.AddressesChanged,
+  balance_changed: ExternalEvent.BalanceChanged,
+  height_changed: ExternalEvent.HeightChanged
+} as const;
+
+export type DAppEvent = keyof typeof DAPP_EVENTS;
+
 export type SuccessResult<T> = { success: true; data: T };
 export type ErrorResult = {
   success: false;
@@ -62,6 +91,9 @@ export type DataWithPayload<T = unknown> = {
 
 export type AddressType = "used" | "unused" | "change";
 
+/** EIP-12 pagination parameters, `page` is zero-based. */
+export type Paginate = { page: number; limit: number };
+
 /**
  * Creates a success result object with the specified data.
  *
@@ -1,4 +1,5 @@
 import { onMessage, sendMessage } from "webext-bridge/popup";
+import type { ChainBackendSettings } from "@/chains/ergo/services/chainService";
 import { router } from "../router";
 import { AsyncRequestQueue, AsyncRequestType } from "./asyncRequestQueue";
 import { DataWithPayload, InternalEvent, InternalRequest } from "./protocol";
@@ -18,8 +19,36 @@ export function registerRpcHooks() {
   onMessage(InternalRequest.SignTxInputs, ({ data }) => handle(InternalRequest.SignTxInputs, data));
 }
 
-export function sendBackendServerUrl(url: string) {
-  sendMessage(InternalEvent.UpdatedBackendUrl, url, BACKGROUND);
+export function sendBackendSettings(settings: ChainBackendSettings) {
+  sendMessage(InternalEvent.UpdatedBackend, settings, BACKGROUND);
+}
+
+/**
+ * Lets the background worker notify the dApp that its connection was changed
+ * or removed from the UI.
+ */
+export function sendConnectionUpdate(origin: string) {
+  sendMessage(InternalEvent.UpdatedConnection, { origin }, BACKGROUND);
+}
+
+/**
+ * Hands a wallet key to the background worker, so it can sign without a password until
+ * the session is locked. Returns `false` if unlocked sessions are disabled.
+ */
+export function unlockSession(walletId: number, key: string) {
+  return sendMessage(InternalRequest.UnlockSession, { walletId, key }, BACKGROUND);
+}
+
+export function lockSession() {
+  return sendMessage(InternalRequest.LockSession, _, BACKGROUND);
+}
+
+export function getSessionKey(walletId: number) {
+  return sendMessage(InternalRequest.GetSessionKey, { walletId }, BACKGROUND);
+}
+
+export function getSessionState() {
+  return sendMessage(InternalRequest.GetSessionState, _, BACKGROUND);
 }
 
 async function handle<T>(type: AsyncRequestType, data: DataWithPayload) {
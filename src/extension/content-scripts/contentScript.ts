@@ -4,11 +4,13 @@ import {
   buildNamespaceFor,
   ExternalEvent,
   ExternalRequest,
+  InternalEvent,
   InternalRequest
 } from "../connector/rpc/protocol";
 
 const CONSOLE_PREFIX = "[Nautilus]";
 const BACKGROUND = "background";
+const WINDOW = "window";
 
 /**
  * Checks if the current document supports script injection.
@@ -84,15 +86,15 @@ function getHost(origin: string) {
 
   // context requests
   onMessage(ExternalRequest.GetUTxOs, async ({ data }) => {
-    return await sendMessage(InternalRequest.GetUTxOs, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.GetUTxOs, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.GetBalance, async ({ data }) => {
-    return await sendMessage(InternalRequest.GetBalance, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.GetBalance, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.GetAddresses, async ({ data }) => {
-    return await sendMessage(InternalRequest.GetAddresses, { payload, filter: data }, BACKGROUND);
+    return await sendMessage(InternalRequest.GetAddresses, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.GetCurrentHeight, async () => {
@@ -100,22 +102,43 @@ function getHost(origin: string) {
   });
 
   onMessage(ExternalRequest.SubmitTransaction, async ({ data }) => {
-    return await sendMessage(InternalRequest.SubmitTransaction, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.SubmitTransaction, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.SignData, async ({ data }) => {
-    return await sendMessage(InternalRequest.SignData, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.SignData, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.Auth, async ({ data }) => {
-    return await sendMessage(InternalRequest.Auth, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.Auth, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.SignTx, async ({ data }) => {
-    return await sendMessage(InternalRequest.SignTx, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.SignTx, { ...data, payload }, BACKGROUND);
   });
 
   onMessage(ExternalRequest.SignTxInputs, async ({ data }) => {
-    return await sendMessage(InternalRequest.SignTxInputs, { payload, ...data }, BACKGROUND);
+    return await sendMessage(InternalRequest.SignTxInputs, { ...data, payload }, BACKGROUND);
+  });
+
+  // events
+  onMessage(InternalEvent.Disconnected, () => {
+    sendMessage(ExternalEvent.Disconnected, undefined, WINDOW);
+  });
+
+  onMessage(InternalEvent.WalletSwitched, () => {
+    sendMessage(ExternalEvent.WalletSwitched, undefined, WINDOW);
+  });
+
+  onMessage(InternalEvent.AddressesChanged, () => {
+    sendMessage(ExternalEvent.AddressesChanged, undefined, WINDOW);
+  });
+
+  onMessage(InternalEvent.BalanceChanged, () => {
+    sendMessage(ExternalEvent.BalanceChanged, undefined, WINDOW);
+  });
+
+  onMessage(InternalEvent.HeightChanged, ({ data }) => {
+    sendMessage(ExternalEvent.HeightChanged, data, WINDOW);
   });
 })();
@@ -1,21 +1,22 @@
 import type { EIP12UnsignedTransaction, SignedTransaction } from "@fleet-sdk/common";
 import { SelectionTarget } from "@nautilus-js/eip12-types";
 import type { JsonValue } from "type-fest";
-import { sendMessage, setNamespace } from "webext-bridge/window";
+import { onMessage, sendMessage, setNamespace } from "webext-bridge/window";
 import { APIErrorCode } from "@/types/connector";
 import {
   buildNamespaceFor,
+  DAPP_EVENTS,
+  DAppEvent,
   ExternalEvent,
   ExternalRequest,
+  Paginate,
   Result
 } from "../connector/rpc/protocol";
 
 const CONTENT_SCRIPT = "content-script";
 const _ = undefined;
-const PAGINATION_ERROR = {
-  code: APIErrorCode.InvalidRequest,
-  info: "Pagination is not supported."
-};
+
+type DAppEventListener = (data?: number) => void;
 
 declare global {
   interface Window {
@@ -29,10 +30,17 @@ declare global {
 class NautilusAuthApi {
   #context?: Readonly<NautilusErgoApi>;
 
+  #clear = () => {
+    this.#context = undefined;
+    if (window.ergo) delete window.ergo;
+  };
+
   async connect({ createErgoObject = true } = {}): Promise<boolean> {
     const granted = await sendMessage(ExternalRequest.Connect, _, CONTENT_SCRIPT);
     if (granted) {
       this.#context = Object.freeze(new NautilusErgoApi());
+      // drop the context once the connection is removed from the wallet
+      this.#context.on("disconnected", this.#clear);
       if (createErgoObject) window.ergo = this.#context;
     }
 
@@ -49,10 +57,7 @@ class NautilusAuthApi {
 
   async disconnect() {
     const disconnected = await sendMessage(ExternalRequest.Disconnect, _, CONTENT_SCRIPT);
-    if (disconnected) {
-      this.#context = undefined;
-      if (window.ergo) delete window.ergo;
-    }
+    if (disconnected) this.#clear();
 
     return disconnected;
   }
@@ -66,23 +71,40 @@ class NautilusAuthApi {
 
 class NautilusErgoApi {
   static instance: NautilusErgoApi;
+  static listeners = new Map<DAppEvent, Set<DAppEventListener>>();
 
   constructor() {
     if (NautilusErgoApi.instance) {
       return NautilusErgoApi.instance;
     }
 
+    for (const [event, message] of Object.entries(DAPP_EVENTS)) {
+      onMessage(message, ({ data }) => {
+        NautilusErgoApi.listeners.get(event as DAppEvent)?.forEach((listener) => listener(data));
+      });
+    }
+
     NautilusErgoApi.instance = this;
     return this;
   }
 
+  on(event: DAppEvent, listener: DAppEventListener) {
+    if (!DAPP_EVENTS[event]) throw { code: APIErrorCode.InvalidRequest, info: "Unknown event." };
+
+    const listeners = NautilusErgoApi.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    NautilusErgoApi.listeners.set(event, listeners);
+  }
+
+  off(event: DAppEvent, listener: DAppEventListener) {
+    NautilusErgoApi.listeners.get(event)?.delete(listener);
+  }
+
   async get_utxos(
     amountOrTarget?: SelectionTarget | string,
     tokenId?: string,
-    paginate?: undefined
+    paginate?: Paginate
   ) {
-    if (paginate) throw PAGINATION_ERROR;
-
     let target: SelectionTarget | undefined;
     if (amountOrTarget) {
       if (typeof amountOrTarget === "string") {
@@ -95,25 +117,35 @@ class NautilusErgoApi {
       }
     }
 
-    return handle(await sendMessage(ExternalRequest.GetUTxOs, { target }, CONTENT_SCRIPT));
+    return handle(
+      await sendMessage(ExternalRequest.GetUTxOs, { target, paginate }, CONTENT_SCRIPT)
+    );
   }
 
   async get_balance(tokenId = "ERG") {
     return handle(await sendMessage(ExternalRequest.GetBalance, { tokenId }, CONTENT_SCRIPT));
   }
 
-  async get_used_addresses(paginate: undefined) {
-    if (paginate) throw PAGINATION_ERROR;
-    return handle(await sendMessage(ExternalRequest.GetAddresses, "used", CONTENT_SCRIPT));
+  async get_used_addresses(paginate?: Paginate) {
+    return handle(
+      await sendMessage(ExternalRequest.GetAddresses, { filter: "used", paginate }, CONTENT_SCRIPT)
+    );
   }
 
-  async get_unused_addresses(paginate: undefined) {
-    if (paginate) throw PAGINATION_ERROR;
-    return handle(await sendMessage(ExternalRequest.GetAddresses, "unused", CONTENT_SCRIPT));
+  async get_unused_addresses(paginate?: Paginate) {
+    return handle(
+      await sendMessage(
+        ExternalRequest.GetAddresses,
+        { filter: "unused", paginate },
+        CONTENT_SCRIPT
+      )
+    );
   }
 
   async get_change_address() {
-    return handle(await sendMessage(ExternalRequest.GetAddresses, "change", CONTENT_SCRIPT));
+    return handle(
+      await sendMessage(ExternalRequest.GetAddresses, { filter: "change" }, CONTENT_SCRIPT)
+    );
   }
 
   async sign_tx(transaction: EIP12UnsignedTransaction) {
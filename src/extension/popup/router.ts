@@ -32,6 +32,18 @@ const routes: Array<RouteRecordRaw> = [
     component: () => import("@/views/add/ImportWalletView.vue"),
     meta: { fullPage: true }
   },
+  {
+    path: "/add/multisig",
+    name: "add-multisig-wallet",
+    component: () => import("@/views/add/MultisigWalletView.vue"),
+    meta: { fullPage: true }
+  },
+  {
+    path: "/add/restore",
+    name: "restore-backup",
+    component: () => import("@/views/add/RestoreBackupView.vue"),
+    meta: { fullPage: true }
+  },
   {
     path: "/history",
     name: "tx-history",
@@ -65,6 +77,31 @@ const routes: Array<RouteRecordRaw> = [
         path: "sigmausd-protocol",
         name: "sigmausd-protocol",
         component: () => import("@/dapps/sigma-usd/SigmaUSDView.vue")
+      },
+      {
+        path: "token-minter",
+        name: "token-minter",
+        component: () => import("@/dapps/token-minter/TokenMinterDApp.vue")
+      },
+      {
+        path: "nft-minter",
+        name: "nft-minter",
+        component: () => import("@/dapps/nft-minter/NftMinterDApp.vue")
+      },
+      {
+        path: "ergopay",
+        name: "ergopay",
+        component: () => import("@/dapps/ergopay/ErgoPayDApp.vue")
+      },
+      {
+        path: "cold-signer",
+        name: "cold-signer",
+        component: () => import("@/dapps/cold-signer/ColdSignerDApp.vue")
+      },
+      {
+        path: "multisig",
+        name: "multisig",
+        component: () => import("@/dapps/multisig/MultisigDApp.vue")
       }
     ]
   },
@@ -77,6 +114,11 @@ const routes: Array<RouteRecordRaw> = [
     path: "/settings",
     name: "wallet-settings",
     component: () => import("@/views/settings/SettingsView.vue")
+  },
+  {
+    path: "/settings/requests",
+    name: "dapp-requests",
+    component: () => import("@/views/settings/DAppRequestsView.vue")
   }
 ];
 
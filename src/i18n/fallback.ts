@@ -0,0 +1,18 @@
+import type { Locale } from "vue-i18n";
+
+export const DEFAULT_LOCALE = "en-US" as const;
+
+export function fallback(locale: string, availableLocales: readonly string[]): Locale {
+  let match = availableLocales.includes(locale)
+    ? locale
+    : availableLocales.find((a) => locale.startsWith(a));
+  if (match) return match as Locale;
+
+  const segments = locale.split("-");
+  if (segments.length) {
+    const language = segments[0] + "-";
+    match = availableLocales.find((a) => a.startsWith(language));
+  }
+
+  return (match ?? DEFAULT_LOCALE) as Locale;
+}
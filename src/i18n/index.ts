@@ -1,9 +1,12 @@
 import { nextTick } from "vue";
 import { createI18n } from "vue-i18n";
 import type { Composer, Locale } from "vue-i18n";
+import { DEFAULT_LOCALE, fallback } from "./fallback";
 import type EnglishMessages from "./locales/en-US.json";
 import { russianPluralRules } from "./plural-rules/ru";
 
+export { fallback };
+
 // import en locale dynamically to avoid the following vite warning: "en.json is dynamically
 // imported by i18n.ts but also statically imported by i18n.ts, dynamic import will not move
 // module into another chunk."
@@ -12,7 +15,6 @@ const enUS = await importLocale("en-US");
 // Supported languages must be ordered by the most used to the least used.
 // See https://www.ethnologue.com/insights/ethnologue200/ for reference.
 export const SUPPORTED_LOCALES = ["en-US", "pt-BR", "ru-RU", "id-ID"] as const;
-const DEFAULT_LOCALE = "en-US" as const;
 
 // Labels must be in the target language following the format: "Language (Country)", where
 // "Country" is optional and must follow the ISO 3166-1 alpha-2 system (two letter country
@@ -67,21 +69,6 @@ async function loadLocale(locale: Locale) {
   return nextTick();
 }
 
-export function fallback(locale: string, availableLocales: readonly string[]): Locale {
-  let match = availableLocales.includes(locale)
-    ? locale
-    : availableLocales.find((a) => locale.startsWith(a));
-  if (match) return match as Locale;
-
-  const segments = locale.split("-");
-  if (segments.length) {
-    const language = segments[0] + "-";
-    match = availableLocales.find((a) => a.startsWith(language));
-  }
-
-  return (match ?? DEFAULT_LOCALE) as Locale;
-}
-
 async function importLocale(locale: Locale) {
   return import(`./locales/${locale}.json`).then((r) => r.default || r);
 }
@@ -1,23 +1,38 @@
 import { computed, onMounted, ref, shallowReactive, watch } from "vue";
 import { acceptHMRUpdate, defineStore } from "pinia";
 import { uniq } from "@fleet-sdk/common";
-import { hex } from "@fleet-sdk/crypto";
+import { blake2b256, hex } from "@fleet-sdk/crypto";
 import { useColorMode } from "@vueuse/core";
-import AES from "crypto-js/aes";
+import { pick } from "es-toolkit";
 import { Locale } from "vue-i18n";
 import { useRouter } from "vue-router";
 import HdKey from "@/chains/ergo/hdKey";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { buildMultisigErgoTree, getMultisigAddress } from "@/chains/ergo/multisig";
+import { ChainBackend, chainService } from "@/chains/ergo/services/chainService";
+import { getAddressType, getWatchOnlyId } from "@/chains/ergo/watchOnly";
+import { Backup, sortForRestore, WalletBackup } from "@/common/backup";
 import { hdKeyPool } from "@/common/objectPool";
+import { encrypt, VAULT_VERSION } from "@/common/vault";
 import { useWebExtStorage } from "@/composables/useWebExtStorage";
+import { CHUNK_DERIVE_LENGTH } from "@/constants/ergo";
 import { UTXO_CHECK_INTERVAL } from "@/constants/intervals";
 import { DEFAULT_SETTINGS } from "@/constants/settings";
+import { addressesDbService } from "@/database/addressesDbService";
+import { connectedDAppsDbService } from "@/database/connectedDAppsDbService";
 import { utxosDbService } from "@/database/utxosDbService";
 import { WalletPatch, walletsDbService } from "@/database/walletsDbService";
-import { sendBackendServerUrl } from "@/extension/connector/rpc/uiRpcHandlers";
+import { sendBackendSettings, sendConnectionUpdate } from "@/extension/connector/rpc/uiRpcHandlers";
 import { setLocale } from "@/i18n";
 import { IDbWallet, NotNullId } from "@/types/database";
-import { Network, WalletType } from "@/types/internal";
+import {
+  AddressState,
+  AddressType,
+  MultisigSettings,
+  Network,
+  WalletSettings,
+  WalletType,
+  WatchOnlySettings
+} from "@/types/internal";
 import { useChainStore } from "./chainStore";
 
 export type Settings = {
@@ -25,12 +40,18 @@ export type Settings = {
   isKyaAccepted: boolean;
   conversionCurrency: string;
   devMode: boolean;
+  chainBackend: ChainBackend;
   graphQLServer: string;
+  nodeServer: string;
+  backupGraphQLServers: string[];
+  backupNodeServers: string[];
   explorerUrl: string;
   ipfsGateway: string;
   hideBalances: boolean;
   blacklistedTokensLists: string[];
   zeroConf: boolean;
+  /** Idle minutes before an unlocked session is locked, `0` disables unlocked sessions. */
+  sessionTimeout: number;
   locale: Locale | "auto";
   colorMode: "light" | "dark" | "auto";
   extension: { viewMode: "popup" | "sidebar" };
@@ -40,15 +61,51 @@ type StandardWallet = {
   name: string;
   type: WalletType.Standard;
   mnemonic: string;
+  /** Optional BIP-39 passphrase, also known as the 25th word. */
+  passphrase?: string;
   password: string;
+  accountIndex?: number;
 };
 
 type ReadOnlyWallet = {
   name: string;
   type: WalletType.ReadOnly | WalletType.Ledger;
   extendedPublicKey: string;
+  accountIndex?: number;
 };
 
+type MultisigWallet = MultisigSettings & {
+  name: string;
+  type: WalletType.Multisig;
+};
+
+type WatchOnlyWallet = WatchOnlySettings & {
+  name: string;
+  type: WalletType.WatchOnly;
+};
+
+/** Wallet from a backup file, with its secrets still encrypted. */
+type RestoredWallet = Omit<WalletBackup, "id">;
+
+type RestoreResult = {
+  /** Ids of the backup's wallets on this device, restored or already existing. */
+  walletIds: number[];
+  /** Number of wallets kept as they were, as they already existed. */
+  skipped: number;
+};
+
+type WalletAccount = {
+  name: string;
+  walletId: number;
+  password: string;
+  accountIndex: number;
+};
+
+type WalletRecord = Pick<
+  IDbWallet,
+  "name" | "type" | "mnemonic" | "passphrase" | "vaultVersion" | "accountIndex"
+>;
+
 const usePrivateState = defineStore("_app", () => ({
   loading: ref(true),
   wallets: shallowReactive<NotNullId<IDbWallet>[]>([])
@@ -98,11 +155,19 @@ export const useAppStore = defineStore("app", () => {
   });
 
   watch(
-    () => settings.value.graphQLServer,
-    (newServerUrl) => {
-      graphQLService.setUrl(newServerUrl);
-      sendBackendServerUrl(newServerUrl);
-    }
+    () =>
+      pick(settings.value, [
+        "chainBackend",
+        "graphQLServer",
+        "nodeServer",
+        "backupGraphQLServers",
+        "backupNodeServers"
+      ]),
+    (backend) => {
+      chainService.configure(backend);
+      sendBackendSettings(backend);
+    },
+    { deep: true }
   );
 
   watch(() => chain.height, checkPendingBoxes);
@@ -127,34 +192,215 @@ export const useAppStore = defineStore("app", () => {
     const index = privateState.wallets.findIndex((w) => w.id === id);
     if (index === -1) return;
 
+    const connections = (await connectedDAppsDbService.getAll()).filter((x) => x.walletId === id);
     await walletsDbService.delete(id);
     privateState.wallets.splice(index, 1);
+
+    for (const { origin } of connections) sendConnectionUpdate(origin);
   }
 
-  async function putWallet(data: StandardWallet | ReadOnlyWallet): Promise<number> {
+  async function putWallet(
+    data: StandardWallet | ReadOnlyWallet | MultisigWallet | WatchOnlyWallet | RestoredWallet
+  ): Promise<number> {
+    if ("publicKey" in data) return putRestoredWallet(data);
+    if (data.type === WalletType.Multisig) return putMultisigWallet(data);
+    if (data.type === WalletType.WatchOnly) return putWatchOnlyWallet(data);
+
     const key =
       data.type === WalletType.Standard
-        ? await HdKey.fromMnemonic(data.mnemonic)
+        ? await HdKey.fromMnemonic(data.mnemonic, {
+            accountIndex: data.accountIndex,
+            passphrase: data.passphrase
+          })
         : HdKey.fromPublicKey(data.extendedPublicKey);
 
+    const isStandard = data.type === WalletType.Standard;
+    return persistWallet(key, {
+      name: data.name,
+      type: data.type,
+      accountIndex: data.accountIndex,
+      mnemonic: isStandard ? await encrypt(data.mnemonic, data.password) : undefined,
+      passphrase:
+        isStandard && data.passphrase ? await encrypt(data.passphrase, data.password) : undefined,
+      vaultVersion: isStandard ? VAULT_VERSION : undefined
+    });
+  }
+
+  /**
+   * Derives a new BIP-44 account from the mnemonic of an existing standard wallet.
+   * The new account is stored as a sibling wallet sharing the same encrypted mnemonic.
+   */
+  async function putAccount(data: WalletAccount): Promise<number> {
+    const mnemonic = await walletsDbService.getMnemonic(data.walletId, data.password);
+    const passphrase = await walletsDbService.getPassphrase(data.walletId, data.password);
+    const key = await HdKey.fromMnemonic(mnemonic, { accountIndex: data.accountIndex, passphrase });
+
+    // read after decrypting, as it may have upgraded the vault
+    const parent = await walletsDbService.getById(data.walletId);
+    if (!parent?.mnemonic) throw new Error("Only standard wallets can derive new accounts.");
+
+    return persistWallet(key, {
+      name: data.name,
+      type: WalletType.Standard,
+      accountIndex: data.accountIndex,
+      mnemonic: parent.mnemonic,
+      passphrase: parent.passphrase,
+      vaultVersion: parent.vaultVersion
+    });
+  }
+
+  /**
+   * Multisig wallets have no HD key, they are identified by the hash of their
+   * contract and hold a single P2S address.
+   */
+  async function putMultisigWallet(
+    data: MultisigWallet,
+    walletSettings = defaultWalletSettings()
+  ): Promise<number> {
+    const publicKeys = [...data.publicKeys].sort();
+    const ergoTree = buildMultisigErgoTree(data.threshold, publicKeys);
+
+    const walletId = await saveWallet({
+      name: data.name.trim(),
+      network: Network.ErgoMainnet,
+      type: WalletType.Multisig,
+      publicKey: hex.encode(blake2b256(ergoTree)),
+      chainCode: "",
+      multisig: { threshold: data.threshold, publicKeys, signerWalletId: data.signerWalletId },
+      settings: walletSettings
+    });
+
+    await addressesDbService.put({
+      type: AddressType.P2S,
+      state: AddressState.Unused,
+      script: getMultisigAddress(data.threshold, publicKeys),
+      index: 0,
+      walletId
+    });
+
+    return walletId;
+  }
+
+  /**
+   * Watch-only wallets hold a fixed list of addresses of any type, with no key to
+   * derive new ones from. They are identified by the hash of their addresses.
+   */
+  async function putWatchOnlyWallet(
+    data: WatchOnlyWallet,
+    walletSettings = defaultWalletSettings()
+  ): Promise<number> {
+    const addresses = uniq(data.addresses);
+    if (addresses.length === 0) throw Error("A watch-only wallet must have at least one address.");
+
+    const walletId = await saveWallet({
+      name: data.name.trim(),
+      network: Network.ErgoMainnet,
+      type: WalletType.WatchOnly,
+      publicKey: getWatchOnlyId(addresses),
+      chainCode: "",
+      watchOnly: { addresses },
+      settings: walletSettings
+    });
+
+    await addressesDbService.bulkPut(
+      addresses.map((script, index) => ({
+        type: getAddressType(script),
+        state: AddressState.Unused,
+        script,
+        index,
+        walletId
+      }))
+    );
+
+    return walletId;
+  }
+
+  /**
+   * Restores a wallet from a backup. Its secrets are kept as they are, so they stay
+   * encrypted with the spending password the wallet had when the backup was made.
+   */
+  async function putRestoredWallet(data: RestoredWallet): Promise<number> {
+    if (data.type === WalletType.Multisig) {
+      if (!data.multisig) throw Error(`Multisig wallet '${data.name}' has no contract settings.`);
+      return putMultisigWallet(
+        { name: data.name, type: WalletType.Multisig, ...data.multisig },
+        data.settings
+      );
+    }
+    if (data.type === WalletType.WatchOnly) {
+      if (!data.watchOnly) throw Error(`Watch-only wallet '${data.name}' has no addresses.`);
+      return putWatchOnlyWallet(
+        { name: data.name, type: WalletType.WatchOnly, ...data.watchOnly },
+        data.settings
+      );
+    }
+
+    const key = HdKey.fromPublicKey({ publicKey: data.publicKey, chainCode: data.chainCode });
+    hdKeyPool.alloc(data.publicKey, key);
+
+    return saveWallet({ ...data, network: Network.ErgoMainnet });
+  }
+
+  /**
+   * Recreates the wallets, dApp connections and settings stored in a backup. Wallets
+   * get new ids, so every reference to them is remapped on the way. Wallets already
+   * on this device are kept as they are, as their secrets may be encrypted with a
+   * newer spending password than the backup's ones.
+   */
+  async function restoreBackup(backup: Backup): Promise<RestoreResult> {
+    const ids = new Map<number, number>();
+    let skipped = 0;
+    for (const { id, ...wallet } of sortForRestore(backup.wallets)) {
+      const existing = await walletsDbService.getByPk(wallet.publicKey);
+      if (existing) {
+        ids.set(id, existing.id);
+        skipped++;
+        continue;
+      }
+
+      if (wallet.multisig) {
+        const signerWalletId = ids.get(wallet.multisig.signerWalletId);
+        if (!signerWalletId) throw Error(`Signer of multisig wallet '${wallet.name}' not found.`);
+        wallet.multisig = { ...wallet.multisig, signerWalletId };
+      }
+
+      ids.set(id, await putWallet(wallet));
+    }
+
+    for (const connection of backup.connectedDApps) {
+      const walletId = ids.get(connection.walletId);
+      if (walletId) await connectedDAppsDbService.put({ ...connection, walletId });
+    }
+
+    const walletIds = [...ids.values()];
+    settings.value = {
+      ...settings.value,
+      ...backup.settings,
+      isKyaAccepted: true,
+      lastOpenedWalletId: ids.get(backup.settings.lastOpenedWalletId) ?? walletIds[0]
+    };
+    setLocale(settings.value.locale !== "auto" ? settings.value.locale : navigator.language);
+
+    return { walletIds, skipped };
+  }
+
+  async function persistWallet(key: HdKey, data: WalletRecord): Promise<number> {
     hdKeyPool.alloc(hex.encode(key.publicKey), key.neutered());
-    const dbObj: IDbWallet = {
+    return saveWallet({
       name: data.name.trim(),
       network: Network.ErgoMainnet,
       type: data.type,
       publicKey: hex.encode(key.publicKey),
       chainCode: hex.encode(key.chainCode),
-      mnemonic:
-        data.type === WalletType.Standard
-          ? AES.encrypt(data.mnemonic, data.password).toString()
-          : undefined,
-      settings: {
-        avoidAddressReuse: false,
-        addressFilter: "all",
-        defaultChangeIndex: 0
-      }
-    };
+      mnemonic: data.mnemonic,
+      passphrase: data.passphrase,
+      vaultVersion: data.vaultVersion,
+      accountIndex: data.accountIndex || undefined,
+      settings: defaultWalletSettings()
+    });
+  }
 
+  async function saveWallet(dbObj: IDbWallet): Promise<number> {
     const walletId = await walletsDbService.put(dbObj);
     dbObj.id = walletId;
 
@@ -177,7 +423,7 @@ export const useAppStore = defineStore("app", () => {
     if (boxesToCheck.length == 0) return;
 
     const txIds = uniq(boxesToCheck.map((b) => b.spentTxId));
-    const mempool = await graphQLService.mempoolTransactionsLookup(txIds);
+    const mempool = await chainService.mempoolTransactionsLookup(txIds);
     await utxosDbService.removeByTxIds(txIds.filter((id) => !mempool.has(id)));
   }
 
@@ -193,10 +439,21 @@ export const useAppStore = defineStore("app", () => {
     updateWallet,
     deleteWallet,
     putWallet,
+    putAccount,
+    restoreBackup,
     viewTitle
   };
 });
 
+function defaultWalletSettings(): WalletSettings {
+  return {
+    avoidAddressReuse: false,
+    addressFilter: "all",
+    defaultChangeIndex: 0,
+    gapLimit: CHUNK_DERIVE_LENGTH
+  };
+}
+
 if (import.meta.hot) {
   import.meta.hot.accept(acceptHMRUpdate(useAppStore, import.meta.hot));
   import.meta.hot.accept(acceptHMRUpdate(usePrivateState, import.meta.hot));
@@ -1,12 +1,24 @@
 import { computed, onMounted, onUnmounted } from "vue";
 import { acceptHMRUpdate, defineStore } from "pinia";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
+import {
+  BackendHealth,
+  checkBackendHealth,
+  EMPTY_HEALTH,
+  HEALTH_STORAGE_KEY,
+  MAX_HEIGHT_LAG
+} from "@/chains/ergo/services/healthMonitor";
 import { useWebExtStorage } from "@/composables/useWebExtStorage";
-import { HEIGHT_CHECK_INTERVAL } from "../constants/intervals";
+import { getSettings } from "@/extension/background/settings";
+import { HEALTH_CHECK_INTERVAL, HEIGHT_CHECK_INTERVAL } from "../constants/intervals";
 
 const usePrivateState = defineStore("_chain", () => {
   const state = useWebExtStorage("ergoChainState", { height: 0 });
-  return { state };
+  const health = useWebExtStorage<BackendHealth>(HEALTH_STORAGE_KEY, EMPTY_HEALTH, {
+    writeDefaults: false
+  });
+
+  return { state, health };
 });
 
 export const useChainStore = defineStore("chain", () => {
@@ -15,6 +27,10 @@ export const useChainStore = defineStore("chain", () => {
   let fetchingHeight = false;
 
   onMounted(async () => {
+    if (Date.now() - privateState.health.checkedAt > HEALTH_CHECK_INTERVAL) {
+      getSettings().then(checkBackendHealth);
+    }
+
     await fetchHeight();
     intervalId = setInterval(fetchHeight, HEIGHT_CHECK_INTERVAL);
   });
@@ -24,12 +40,16 @@ export const useChainStore = defineStore("chain", () => {
   });
 
   const height = computed(() => privateState.state.height);
+  const health = computed(() => privateState.health);
+  const tip = computed(() => Math.max(privateState.state.height, privateState.health.tip));
+  const serverLag = computed(() => (height.value ? tip.value - height.value : 0));
+  const isServerBehind = computed(() => serverLag.value > MAX_HEIGHT_LAG);
 
   async function fetchHeight() {
     if (fetchingHeight) return;
     fetchingHeight = true;
 
-    const height = await graphQLService.getHeight();
+    const height = await chainService.getHeight();
     if (height && height !== privateState.state.height) {
       privateState.state.height = height;
     }
@@ -37,7 +57,7 @@ export const useChainStore = defineStore("chain", () => {
     fetchingHeight = false;
   }
 
-  return { height };
+  return { height, health, tip, serverLag, isServerBehind };
 });
 
 if (import.meta.hot) {
@@ -3,7 +3,7 @@ import { acceptHMRUpdate, defineStore } from "pinia";
 import { utxoSum } from "@fleet-sdk/common";
 import { ErgoAddress } from "@fleet-sdk/core";
 import { useIntervalFn } from "@vueuse/core";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { chainService } from "@/chains/ergo/services/chainService";
 import { summarizeTransaction } from "@/chains/ergo/transaction/summarizer";
 import { bn, decimalize } from "@/common/bigNumber";
 import { ERG_TOKEN_ID } from "@/constants/ergo";
@@ -78,7 +78,7 @@ export const usePoolStore = defineStore("pool", () => {
     if (addresses.value.length === 0) return;
 
     const wId = wallet.id;
-    const response = await graphQLService.getUnconfirmedTransactions({
+    const response = await chainService.getUnconfirmedTransactions({
       where: { addresses: addresses.value }
     });
 
@@ -3,8 +3,17 @@ import { acceptHMRUpdate, defineStore } from "pinia";
 import type BigNumber from "bignumber.js";
 import { groupBy, maxBy } from "es-toolkit";
 import { useRouter } from "vue-router";
-import HdKey, { IndexedAddress } from "@/chains/ergo/hdKey";
-import { graphQLService } from "@/chains/ergo/services/graphQlService";
+import { storage } from "webextension-polyfill";
+import HdKey from "@/chains/ergo/hdKey";
+import { chainService } from "@/chains/ergo/services/chainService";
+import {
+  countTrailingUnused,
+  getSyncStateKey,
+  isDerivable,
+  ScanProgress,
+  syncWallet,
+  WalletSyncState
+} from "@/chains/ergo/walletSync";
 import { hdKeyPool } from "@/common/objectPool";
 import { patchArray } from "@/common/reactivity";
 import { CHUNK_DERIVE_LENGTH, ERG_TOKEN_ID, HEALTHY_BLOCKS_AGE } from "@/constants/ergo";
@@ -18,6 +27,7 @@ import {
   AssetInfo,
   AssetSubtype,
   BasicAssetMetadata,
+  MultisigSettings,
   WalletSettings,
   WalletType
 } from "@/types/internal";
@@ -38,6 +48,12 @@ interface StateAsset extends AssetInfo {
   address?: string;
 }
 
+type SyncOptions = {
+  force?: boolean;
+  scanUntil?: number;
+  onProgress?: (progress: ScanProgress) => void;
+};
+
 export interface StateAddress {
   script: string;
   state: AddressState;
@@ -75,6 +91,8 @@ const usePrivateStateStore = defineStore("_wallet", () => {
     type: ref(WalletType.Standard),
     publicKey: ref(""),
     chainCode: ref(""),
+    accountIndex: ref(0),
+    multisig: shallowRef<MultisigSettings>(),
     lastSynced: ref(0),
     hasOldUtxos: ref(false),
     addresses,
@@ -98,7 +116,8 @@ export const useWalletStore = defineStore("wallet", () => {
   const settings = ref<WalletSettings>({
     avoidAddressReuse: false,
     addressFilter: "all",
-    defaultChangeIndex: 0
+    defaultChangeIndex: 0,
+    gapLimit: CHUNK_DERIVE_LENGTH
   });
 
   // #region watches
@@ -156,6 +175,16 @@ export const useWalletStore = defineStore("wallet", () => {
     }
   );
 
+  // reloads the wallet when another context, like the background worker, synced it
+  storage.onChanged.addListener((changes, area) => {
+    const state = changes[getSyncStateKey(privateState.id)]?.newValue as
+      | WalletSyncState
+      | undefined;
+    if (area !== "local" || !state) return;
+    if (privateState.loading || privateState.syncing) return;
+    if (state.syncedAt > privateState.lastSynced) reload(state.syncedAt);
+  });
+
   // #region computed
   const assets = computed((): StateAsset[] => {
     return privateState.assets.map((x) => {
@@ -271,6 +300,8 @@ export const useWalletStore = defineStore("wallet", () => {
     return address;
   });
 
+  const gapLimit = computed(() => settings.value.gapLimit ?? CHUNK_DERIVE_LENGTH);
+
   const artworkBalance = computed(() => balance.value.filter(artwork));
   const nonArtworkBalance = computed(() => balance.value.filter((x) => !artwork(x)));
 
@@ -285,6 +316,8 @@ export const useWalletStore = defineStore("wallet", () => {
     privateState.type = wlt.type;
     privateState.publicKey = wlt.publicKey;
     privateState.chainCode = wlt.chainCode;
+    privateState.accountIndex = wlt.accountIndex ?? 0;
+    privateState.multisig = wlt.multisig;
     privateState.lastSynced = wlt.lastSynced ?? 0;
     privateState.hasOldUtxos = false;
     name.value = wlt.name;
@@ -300,10 +333,12 @@ export const useWalletStore = defineStore("wallet", () => {
 
     appStore.settings.lastOpenedWalletId = walletId;
 
-    hdKeyPool.alloc(
-      privateState.publicKey,
-      HdKey.fromPublicKey({ publicKey: wlt.publicKey, chainCode: wlt.chainCode })
-    );
+    if (isDerivable(wlt.type)) {
+      hdKeyPool.alloc(
+        privateState.publicKey,
+        HdKey.fromPublicKey({ publicKey: wlt.publicKey, chainCode: wlt.chainCode })
+      );
+    }
 
     if (opt.syncInBackground) {
       sync();
@@ -315,10 +350,12 @@ export const useWalletStore = defineStore("wallet", () => {
   }
 
   async function deriveNewAddress() {
-    const lastUsed = addresses.value.findLastIndex((x) => x.state === AddressState.Used);
-    if (addresses.value.length - lastUsed > CHUNK_DERIVE_LENGTH) {
+    if (!isDerivable(privateState.type)) {
+      throw new Error("This wallet doesn't support address derivation.");
+    }
+    if (countTrailingUnused(addresses.value) >= gapLimit.value) {
       throw new RangeError(
-        `Cannot generate more than ${CHUNK_DERIVE_LENGTH} unused addresses in a row.`
+        `Cannot generate more than ${gapLimit.value} unused addresses in a row.`
       );
     }
 
@@ -338,89 +375,83 @@ export const useWalletStore = defineStore("wallet", () => {
   }
 
   async function checkOldUtxos() {
-    privateState.hasOldUtxos = await graphQLService.checkBoxesOlderThan(
+    privateState.hasOldUtxos = await chainService.checkBoxesOlderThan(
       chain.height - HEALTHY_BLOCKS_AGE,
       privateState.addresses.filter((x) => x.state === AddressState.Used).map((x) => x.script)
     );
   }
 
-  // #region private actions
-  async function sync() {
-    if (Date.now() - privateState.lastSynced < MIN_SYNC_INTERVAL) return setSyncing(false);
-    setSyncing(true);
-
-    const walletId = privateState.id;
-    const deriver = hdKeyPool.get(privateState.publicKey);
-    const addressesChunks = [] as IDbAddress[][];
-    const assetsChunks = [] as IDbAsset[][];
-    let offset = 0;
-    let keepChecking = true;
-
-    while (keepChecking && walletId === privateState.id) {
-      const derived = getOrDerive(privateState.addresses, deriver, CHUNK_DERIVE_LENGTH, offset);
-      const info = await graphQLService.getAddressesInfo(derived.map((x) => x.script));
-
-      addressesChunks.push(
-        derived.map((d) => {
-          const i = info.find((x) => x.address === d.script);
-          return {
-            type: AddressType.P2PK,
-            state: i?.used ? AddressState.Used : AddressState.Unused,
-            script: d.script,
-            index: d.index,
-            walletId
-          };
-        })
-      );
-
-      assetsChunks.push(
-        info.flatMap((address) =>
-          address.assets.map(
-            (asset): IDbAsset => ({
-              address: address.address,
-              tokenId: asset.tokenId,
-              confirmedAmount: asset.confirmedAmount,
-              unconfirmedAmount: asset.unconfirmedAmount,
-              walletId
-            })
-          )
-        )
-      );
+  /**
+   * Re-derives and checks every address up to `untilIndex`, then keeps going
+   * until the gap limit is reached.
+   */
+  async function rescan(untilIndex: number, onProgress?: (progress: ScanProgress) => void) {
+    await sync({ force: true, scanUntil: untilIndex, onProgress });
+  }
 
-      offset += derived.length;
-      keepChecking = info.some((x) => x.used);
+  // #region private actions
+  async function sync(opt: SyncOptions = {}) {
+    if (!opt.force && Date.now() - privateState.lastSynced < MIN_SYNC_INTERVAL) {
+      return setSyncing(false);
     }
 
-    if (walletId !== privateState.id) return; // ensure we are still on the same wallet
+    setSyncing(true);
 
-    // detect changes
-    const { changedAddresses, changedAssets, removedAssets } = getChanges(
-      privateState.addresses,
-      addressesChunks.flat(),
-      privateState.assets,
-      assetsChunks.flat()
+    const walletId = privateState.id;
+    const result = await syncWallet(
+      {
+        id: walletId,
+        type: privateState.type,
+        publicKey: privateState.publicKey,
+        chainCode: privateState.chainCode,
+        settings: toRaw(settings.value)
+      },
+      {
+        deriver: isDerivable(privateState.type) ? hdKeyPool.get(privateState.publicKey) : undefined,
+        addresses: privateState.addresses,
+        assets: privateState.assets,
+        scanUntil: opt.scanUntil,
+        onProgress: opt.onProgress,
+        isCancelled: () => walletId !== privateState.id // ensure we are still on the same wallet
+      }
     );
 
-    // persist data
-    await addressesDbService.bulkPut(changedAddresses);
-    await assetsDbService.bulkPut(changedAssets);
-    await assetsDbService.bulkDelete(removedAssets);
+    if (!result || walletId !== privateState.id) return;
 
     // load metadata for changed assets
-    if (changedAssets.length > 0) {
-      await assetsStore.loadMetadata(changedAssets.map((x) => x.tokenId));
+    if (result.changedAssets.length > 0) {
+      await assetsStore.loadMetadata(result.changedAssets.map((x) => x.tokenId));
     }
 
     // update state
     if (walletId !== privateState.id) return; // ensure we are still on the same wallet
-    privateState.patchAddresses(changedAddresses);
-    privateState.patchAssets(changedAssets, removedAssets);
-    privateState.lastSynced = Date.now();
+    privateState.patchAddresses(result.changedAddresses);
+    privateState.patchAssets(result.changedAssets, result.removedAssets);
+    privateState.lastSynced = result.syncedAt;
 
     checkOldUtxos();
     setSyncing(false);
   }
 
+  /**
+   * Reloads addresses and assets from the database after the wallet
+   * got synchronized by another extension context.
+   */
+  async function reload(syncedAt: number) {
+    const walletId = privateState.id;
+    const [dbAddresses, dbAssets] = await Promise.all([
+      addressesDbService.getByWalletId(walletId),
+      assetsDbService.getByWalletId(walletId)
+    ]);
+
+    await assetsStore.loadMetadata(dbAssets.map((x) => x.tokenId));
+    if (walletId !== privateState.id) return;
+
+    privateState.addresses = dbAddresses;
+    privateState.assets = dbAssets;
+    privateState.lastSynced = syncedAt;
+  }
+
   function setSyncing(value: boolean) {
     privateState.syncing = value;
   }
@@ -434,6 +465,8 @@ export const useWalletStore = defineStore("wallet", () => {
     type: computed(() => privateState.type),
     publicKey: computed(() => privateState.publicKey),
     chainCode: computed(() => privateState.chainCode),
+    accountIndex: computed(() => privateState.accountIndex),
+    multisig: computed(() => privateState.multisig),
     loading: computed(() => privateState.loading),
     syncing: computed(() => privateState.syncing),
     health,
@@ -445,48 +478,13 @@ export const useWalletStore = defineStore("wallet", () => {
     balance,
     nonArtworkBalance,
     artworkBalance,
+    gapLimit,
     load,
-    deriveNewAddress
+    deriveNewAddress,
+    rescan
   };
 });
 
-function getChanges(
-  currentAddresses: IDbAddress[],
-  newAddress: IDbAddress[],
-  currentAssets: IDbAsset[],
-  newAssets: IDbAsset[]
-) {
-  const sortedAddresses = newAddress.sort((a, b) => a.index - b.index);
-  const latUsedIndex = sortedAddresses.findLastIndex((a) => a.state === AddressState.Used);
-  const prunedAddresses = sortedAddresses.slice(0, latUsedIndex + 2); // keep last used and next unused
-
-  const changedAddresses = prunedAddresses.filter((newAddress) => {
-    const currentAddress = currentAddresses.find((x) => x.script === newAddress.script);
-    if (!currentAddress) return true;
-    return currentAddress.state !== newAddress.state;
-  });
-
-  const changedAssets = newAssets.filter((newAsset) => {
-    if (!prunedAddresses.some((x) => x.script === newAsset.address)) return false;
-
-    const currentAsset = currentAssets.find(
-      (x) => x.tokenId === newAsset.tokenId && x.address === newAsset.address
-    );
-    if (!currentAsset) return true;
-
-    return (
-      currentAsset.confirmedAmount !== newAsset.confirmedAmount ||
-      currentAsset.unconfirmedAmount !== newAsset.unconfirmedAmount
-    );
-  });
-
-  const removedAssets = currentAssets.filter(
-    (c) => !newAssets.some((n) => n.address === c.address && n.tokenId === c.tokenId)
-  );
-
-  return { changedAddresses, changedAssets, removedAssets };
-}
-
 /**
  * Compares two assets and ranks them based on predefined criteria.
  *
@@ -509,16 +507,6 @@ function rankAssets(a: AssetInfo, b: AssetInfo) {
   return (a.metadata?.name ?? a.tokenId).localeCompare(b.metadata?.name ?? b.tokenId);
 }
 
-function getOrDerive(derived: IndexedAddress[], deriver: HdKey, count: number, offset: number) {
-  const chunk = derived.slice(offset, offset + count);
-  if (chunk.length < count) {
-    const remaining = count - chunk.length;
-    chunk.push(...deriver.deriveAddresses(remaining, offset + chunk.length));
-  }
-
-  return chunk;
-}
-
 function artwork(asset: { metadata?: BasicAssetMetadata }) {
   return (
     asset.metadata &&
@@ -7,23 +7,27 @@ import type {
 import type { AssetBalance, AuthResult, SelectionTarget } from "@nautilus-js/eip12-types";
 import type { JsonValue } from "type-fest";
 import type { ProtocolWithReturn as WithReturn } from "webext-bridge";
+import type { ChainBackendSettings } from "@/chains/ergo/services/chainService";
+import type { SessionState } from "@/extension/background/session";
 import type {
   AddressType,
   ErrorResult,
+  ExternalEvent,
   ExternalRequest,
   InternalEvent,
   InternalRequest,
+  Paginate,
   Result,
   DataWithPayload as WithPayload
 } from "@/extension/connector/rpc/protocol";
 
-type UTxOsTarget = { target: SelectionTarget | undefined };
+type UTxOsTarget = { target: SelectionTarget | undefined; paginate?: Paginate };
 type UTxOResult = Result<Box<string>[]>;
 
 type BalanceArgs = { tokenId?: string };
 type BalanceResult = Result<AssetBalance[] | string>;
 
-type AddressesArgs = { filter: AddressType };
+type AddressesArgs = { filter: AddressType; paginate?: Paginate };
 type AddressesResult = Result<string[] | string>;
 
 type SignDataArgs = { address: string; message: JsonValue };
@@ -38,6 +42,9 @@ type SignTxInputsResult = Result<SignedInput[]>;
 type SubmitTxArgs = { transaction: SignedTransaction };
 type SubmitTxResult = Result<string>;
 
+type UnlockSessionArgs = { walletId: number; key: string };
+type SessionKeyArgs = { walletId: number };
+
 declare module "webext-bridge" {
   export interface ProtocolMap {
     [ExternalRequest.Connect]: WithReturn<undefined, boolean>;
@@ -46,7 +53,7 @@ declare module "webext-bridge" {
 
     [ExternalRequest.GetUTxOs]: WithReturn<UTxOsTarget, UTxOResult>;
     [ExternalRequest.GetBalance]: WithReturn<BalanceArgs, BalanceResult>;
-    [ExternalRequest.GetAddresses]: WithReturn<AddressType, AddressesResult>;
+    [ExternalRequest.GetAddresses]: WithReturn<AddressesArgs, AddressesResult>;
     [ExternalRequest.GetCurrentHeight]: WithReturn<undefined, Result<number>>;
     [ExternalRequest.SignData]: WithReturn<SignDataArgs, ErrorResult>;
     [ExternalRequest.Auth]: WithReturn<AuthArgs, Result<AuthResult>>;
@@ -68,7 +75,24 @@ declare module "webext-bridge" {
     [InternalRequest.SignTxInputs]: WithReturn<WithPayload<SignTxInputsArgs>, SignTxInputsResult>;
     [InternalRequest.SubmitTransaction]: WithReturn<WithPayload<SubmitTxArgs>, SubmitTxResult>;
 
+    [InternalRequest.UnlockSession]: WithReturn<UnlockSessionArgs, boolean>;
+    [InternalRequest.LockSession]: WithReturn<undefined, void>;
+    [InternalRequest.GetSessionKey]: WithReturn<SessionKeyArgs, string | undefined>;
+    [InternalRequest.GetSessionState]: WithReturn<undefined, SessionState>;
+
     [InternalEvent.Loaded]: undefined;
-    [InternalEvent.UpdatedBackendUrl]: string;
+    [InternalEvent.UpdatedBackend]: ChainBackendSettings;
+    [InternalEvent.UpdatedConnection]: { origin: string };
+    [InternalEvent.Disconnected]: undefined;
+    [InternalEvent.WalletSwitched]: undefined;
+    [InternalEvent.AddressesChanged]: undefined;
+    [InternalEvent.BalanceChanged]: undefined;
+    [InternalEvent.HeightChanged]: number;
+
+    [ExternalEvent.Disconnected]: undefined;
+    [ExternalEvent.WalletSwitched]: undefined;
+    [ExternalEvent.AddressesChanged]: undefined;
+    [ExternalEvent.BalanceChanged]: undefined;
+    [ExternalEvent.HeightChanged]: number;
   }
 }
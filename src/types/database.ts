@@ -1,13 +1,17 @@
 import { Box } from "@fleet-sdk/common";
+import type { MultisigSession } from "@/chains/ergo/multisig";
 import {
   AddressState,
   AddressType,
   AssetStandard,
   AssetSubtype,
   AssetType,
+  DAppScope,
+  MultisigSettings,
   Network,
   WalletSettings,
-  WalletType
+  WalletType,
+  WatchOnlySettings
 } from "@/types/internal";
 
 export type NotNullId<T extends { id?: number }> = T & { id: number };
@@ -17,9 +21,18 @@ export interface IDbWallet {
   name: string;
   network: Network;
   type: WalletType;
+  /** Account public key, or a hash of the contract for wallets without HD keys. */
   publicKey: string;
   chainCode: string;
+  /** Password encrypted mnemonic, see `@/common/vault`. */
   mnemonic?: string;
+  /** Password encrypted BIP-39 passphrase, if the wallet uses one. */
+  passphrase?: string;
+  /** Format version of the encrypted mnemonic. */
+  vaultVersion?: number;
+  accountIndex?: number;
+  multisig?: MultisigSettings;
+  watchOnly?: WatchOnlySettings;
   settings: WalletSettings;
   lastSynced?: number;
 }
@@ -44,6 +57,30 @@ export interface IDbDAppConnection {
   origin: string;
   walletId: number;
   favicon?: string;
+  scopes: DAppScope[];
+}
+
+export type DAppRequestOutcome = "approved" | "refused" | "failed";
+
+export interface IDbDAppRequest {
+  id?: number;
+  origin: string;
+  method: string;
+  walletId?: number;
+  timestamp: number;
+  outcome: DAppRequestOutcome;
+  transactionId?: string;
+  error?: string;
+}
+
+export interface IDbMultisigSession {
+  /** Unsigned transaction id. */
+  id: string;
+  walletId: number;
+  session: MultisigSession;
+  /** Password encrypted secret commitments of this device, removed once used. */
+  secretHints?: string;
+  createdAt: number;
 }
 
 export interface IAssetInfo {
@@ -10,7 +10,9 @@ export enum AddressState {
 export enum WalletType {
   Standard,
   ReadOnly,
-  Ledger
+  Ledger,
+  Multisig,
+  WatchOnly
 }
 
 export enum Network {
@@ -43,12 +45,42 @@ export enum AssetSubtype {
   ThresholdSignature = "0201"
 }
 
+export enum DAppScope {
+  ReadBalance = "readBalance",
+  ReadAddresses = "readAddresses",
+  SignTransaction = "signTransaction",
+  SignData = "signData",
+  SubmitTransaction = "submitTransaction"
+}
+
+export const ALL_DAPP_SCOPES = Object.values(DAppScope);
+
 export type AddressFilter = "all" | "active" | "unused";
 
 export type WalletSettings = {
   avoidAddressReuse: boolean;
   addressFilter: AddressFilter;
   defaultChangeIndex: number;
+  gapLimit?: number;
+  notifications?: NotificationSettings;
+};
+
+export type MultisigSettings = {
+  threshold: number;
+  /** Hex encoded public keys of all cosigners, sorted. */
+  publicKeys: string[];
+  /** Standard wallet whose first address key is this device's cosigner key. */
+  signerWalletId: number;
+};
+
+export type WatchOnlySettings = {
+  /** Watched addresses of any type, in the order they were entered. */
+  addresses: string[];
+};
+
+export type NotificationSettings = {
+  enabled: boolean;
+  tokenIds: string[];
 };
 
 export type StateWallet = {
@@ -16,5 +16,10 @@ export type ConfirmedTransactionSummary = TransactionSummary & {
 export type UnconfirmedTransactionSummary = TransactionSummary & {
   confirmed: false;
   cancelable: boolean;
+  /** All inputs belong to the wallet, so the transaction can be rebuilt with a higher fee. */
+  replaceable: boolean;
   ownInputs: Box<string>[];
+  ownOutputs: Box<string>[];
+  /** Outputs not owned by the wallet, excluding the fee box. */
+  recipientOutputs: Box<string>[];
 };
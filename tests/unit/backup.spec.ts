@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { Settings } from "@/stores/appStore";
+import { buildBackup, decryptBackup, encryptBackup, sortForRestore } from "@/common/backup";
+import { PasswordError } from "@/common/errors";
+import { encrypt } from "@/common/vault";
+import { IDbWallet, NotNullId } from "@/types/database";
+import { Network, WalletType } from "@/types/internal";
+
+const params = { iterations: 1_000 }; // keep tests fast
+const settings = { lastOpenedWalletId: 2, locale: "auto", hideBalances: true } as Settings;
+
+function wallet(id: number, type: WalletType, patch: Partial<IDbWallet> = {}) {
+  return {
+    id,
+    name: `Wallet ${id}`,
+    network: Network.ErgoMainnet,
+    type,
+    publicKey: `${id}`.repeat(66),
+    chainCode: `${id}`.repeat(64),
+    settings: { avoidAddressReuse: false, addressFilter: "all", defaultChangeIndex: 0 },
+    lastSynced: Date.now(),
+    ...patch
+  } as NotNullId<IDbWallet>;
+}
+
+describe("wallet backup", () => {
+  it("round-trips with secrets still encrypted with the spending password", async () => {
+    const mnemonic = await encrypt("secret words", "spending password", params);
+    const wallets = [wallet(1, WalletType.Standard, { mnemonic }), wallet(2, WalletType.ReadOnly)];
+    const connections = [{ origin: "https://dapp.io", walletId: 1, scopes: [] }];
+
+    const backup = buildBackup(wallets, connections, settings);
+    expect(backup.wallets[0]).not.toHaveProperty("network");
+    expect(backup.wallets[0]).not.toHaveProperty("lastSynced");
+
+    const file = await encryptBackup(backup, "backup password", params);
+    expect(file).not.toContain("Wallet 1");
+
+    const restored = await decryptBackup(file, "backup password");
+    expect(restored).toEqual(backup);
+    expect(restored.wallets[0].mnemonic).toBe(mnemonic);
+  });
+
+  it("rejects wrong passwords and files that are not backups", async () => {
+    const file = await encryptBackup(buildBackup([], [], settings), "backup password", params);
+
+    await expect(decryptBackup(file, "wrong password")).rejects.toThrow(PasswordError);
+    await expect(decryptBackup("not a backup", "backup password")).rejects.toThrow(/Invalid/);
+    await expect(decryptBackup("{ broken", "backup password")).rejects.toThrow(/Invalid/);
+
+    const other = await encrypt('{"version":99}', "backup password", params);
+    await expect(decryptBackup(other, "backup password")).rejects.toThrow(/Unsupported/);
+  });
+
+  it("restores multisig wallets after their signers", () => {
+    const wallets = [
+      wallet(1, WalletType.Multisig),
+      wallet(2, WalletType.Standard),
+      wallet(3, WalletType.Ledger)
+    ];
+
+    const sorted = sortForRestore(buildBackup(wallets, [], settings).wallets);
+    expect(sorted.map((w) => w.id)).toEqual([2, 3, 1]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatRecipients,
+  parseRecipients,
+  splitRecipients
+} from "@/chains/ergo/transaction/batch";
+import { ERG_TOKEN_ID } from "@/constants/ergo";
+
+describe("batch recipients", () => {
+  const alice = "9fAzrkobHhThfpsByj4CZzUr6riYxrUtn7TjjFP88UQBFhmU5Kg";
+  const bob = "9fHE57nskdLLJNy8sm4GC4CAzL4wLa7tArYM6Zpk8Zcvyn5d8o6";
+  const tokenId = "03faf2cb329f2e90d6d23b58d91bbb6c046aa143261cc21f52fbe2824bfcbf04";
+  const getDecimals = (id: string) => (id === tokenId ? 2 : undefined);
+
+  it("parses CSV and merges rows for the same address", () => {
+    const csv = `address,amount,tokenId\n${alice},1.5\n${alice},10.25,${tokenId}\n${bob},0.1,ERG`;
+    const { recipients, errors } = parseRecipients(csv, getDecimals);
+
+    expect(errors).toEqual([]);
+    expect(recipients).toEqual([
+      { address: alice, nanoErgs: 1500000000n, tokens: [{ tokenId, amount: 1025n }] },
+      { address: bob, nanoErgs: 100000000n, tokens: [] }
+    ]);
+  });
+
+  it("parses JSON and adds the minimum box value to token-only outputs", () => {
+    const json = JSON.stringify([{ address: bob, tokens: [{ tokenId, amount: "3" }] }]);
+    const { recipients, errors } = parseRecipients(json, getDecimals);
+
+    expect(errors).toEqual([]);
+    expect(recipients).toEqual([
+      { address: bob, nanoErgs: 1000000n, tokens: [{ tokenId, amount: 300n }] }
+    ]);
+  });
+
+  it("formats recipients back to a parsable list", () => {
+    const recipients = [
+      { address: alice, nanoErgs: 1500000000n, tokens: [{ tokenId, amount: 1025n }] },
+      { address: bob, nanoErgs: 1000000n, tokens: [] }
+    ];
+    const csv = formatRecipients(recipients, getDecimals);
+
+    expect(csv).toBe(`${alice},1.5\n${alice},10.25,${tokenId}\n${bob},0.001`);
+    expect(parseRecipients(csv, getDecimals).recipients).toEqual(recipients);
+  });
+
+  it("reports invalid entries with their line numbers", () => {
+    const csv = [
+      `invalid,1`,
+      `${alice},0.0001`,
+      `${bob},1,${ERG_TOKEN_ID.replace(/0/g, "1")}`,
+      `${bob},1.001,${tokenId}`
+    ];
+    const { errors } = parseRecipients(csv.join("\n"), getDecimals);
+
+    expect(errors.map((x) => x.line)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("splits recipients by outputs count and size", () => {
+    const recipients = Array.from({ length: 5 }, () => ({
+      address: alice,
+      nanoErgs: 1000000n,
+      tokens: []
+    }));
+
+    expect(splitRecipients(recipients, { maxOutputs: 2 }).map((x) => x.length)).toEqual([2, 2, 1]);
+    expect(splitRecipients(recipients, { maxSize: 1 }).map((x) => x.length)).toEqual([
+      1, 1, 1, 1, 1
+    ]);
+    expect(splitRecipients(recipients)).toHaveLength(1);
+  });
+});
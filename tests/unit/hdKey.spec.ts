@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { calcCip4ImageHash } from "@/chains/ergo/checksum";
-import HdKey from "@/chains/ergo/hdKey";
+import HdKey, { getAccountPath, getDerivationPath } from "@/chains/ergo/hdKey";
 
 describe("address generation", () => {
   const xpk =
@@ -29,6 +29,38 @@ describe("address generation", () => {
     }
   });
 
+  it("Should derive addresses form mnemonic for non-default accounts", async () => {
+    const accounts = [
+      [
+        "9fHE57nskdLLJNy8sm4GC4CAzL4wLa7tArYM6Zpk8Zcvyn5d8o6",
+        "9fQuCmEZGi2xAhwYqPt7gfnga7kUSUtGBkKRRjks2Df6aURNnrL",
+        "9hLMhKga9LmRY2BaN9uTcCk8gDDQ5AostHHUL7spbTF5w1vreBo"
+      ],
+      [
+        "9iEzq6jiX9i2LS4rejKH2jjMfntAtaNd5cp9m4Y789HF3DwnM6a",
+        "9f2a6FHt7oPDa7FaA8A8bjkqM51bdkXccLFQ1EH5g9H2ap9yFp5",
+        "9gvbWFd9LTuZSfCocdZoqt45aXq14iizP6ByTALf1FyAeUUs4Lb"
+      ]
+    ];
+
+    for (let account = 0; account < accounts.length; account++) {
+      const deriver = await HdKey.fromMnemonic(mnemonic, { accountIndex: account + 1 });
+      const addresses = accounts[account];
+
+      for (let i = 0; i < addresses.length; i++) {
+        const address = deriver.deriveAddress(i);
+        expect(address.script).toEqual(addresses[i]);
+      }
+    }
+  });
+
+  it("Should build BIP-44 derivation paths", () => {
+    expect(getAccountPath()).toEqual("m/44'/429'/0'");
+    expect(getAccountPath(2)).toEqual("m/44'/429'/2'");
+    expect(getDerivationPath()).toEqual("m/44'/429'/0'/0");
+    expect(getDerivationPath(1)).toEqual("m/44'/429'/1'/0");
+  });
+
   it("Should derive addresses form extended public key", () => {
     const deriver = HdKey.fromPublicKey(xpk);
     const addresses = [
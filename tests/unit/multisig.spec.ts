@@ -0,0 +1,111 @@
+import { EIP12UnsignedTransaction } from "@fleet-sdk/common";
+import { AddressType, ErgoAddress } from "@fleet-sdk/core";
+import { describe, expect, it } from "vitest";
+import {
+  buildMultisigErgoTree,
+  decodeSession,
+  encodeSession,
+  extractPublicKey,
+  getMultisigAddress,
+  mergeSessions,
+  MultisigSession,
+  selectCosigners
+} from "@/chains/ergo/multisig";
+
+const [a, b, c] = ["02", "03", "02"].map((prefix, i) => prefix + `${i}`.repeat(64));
+const keys = [a, b, c].sort();
+
+const transaction = {
+  inputs: [{ boxId: "1".repeat(64), extension: {} }],
+  dataInputs: [],
+  outputs: []
+} as unknown as EIP12UnsignedTransaction;
+
+function session(patch: Partial<MultisigSession> = {}): MultisigSession {
+  return {
+    address: getMultisigAddress(2, keys),
+    transaction,
+    commitments: {},
+    signers: [],
+    ...patch
+  };
+}
+
+describe("multisig contract", () => {
+  it("builds a constant threshold ErgoTree, regardless of keys order", () => {
+    const tree = buildMultisigErgoTree(2, [c, a, b]);
+
+    expect(tree).toBe(`0008980203${keys.map((k) => `cd${k}`).join("")}`);
+    expect(buildMultisigErgoTree(2, keys)).toBe(tree);
+    expect(ErgoAddress.fromBase58(getMultisigAddress(2, [b, c, a])).type).toBe(AddressType.P2S);
+  });
+
+  it("rejects invalid thresholds and cosigners", () => {
+    expect(() => buildMultisigErgoTree(0, keys)).toThrow();
+    expect(() => buildMultisigErgoTree(4, keys)).toThrow();
+    expect(() => buildMultisigErgoTree(1, [a])).toThrow();
+    expect(() => buildMultisigErgoTree(1, [a, a])).toThrow();
+  });
+
+  it("extracts public keys from P2PK addresses only", () => {
+    const address = ErgoAddress.fromPublicKey(a).encode();
+
+    expect(extractPublicKey(address)).toBe(a);
+    expect(() => extractPublicKey(getMultisigAddress(2, keys))).toThrow();
+  });
+});
+
+describe("multisig sessions", () => {
+  it("merges commitments and keeps the most advanced signature", () => {
+    const partial = { id: "tx", inputs: [], dataInputs: [], outputs: [] };
+    const current = session({ commitments: { [a]: { "0": [] } } });
+    const incoming = session({
+      commitments: { [b]: { "0": [] } },
+      partial,
+      signers: [b],
+      simulated: [c]
+    });
+
+    const merged = mergeSessions(current, incoming);
+    expect(Object.keys(merged.commitments)).toEqual([a, b]);
+    expect(merged.partial).toBe(partial);
+    expect(merged.signers).toEqual([b]);
+    expect(merged.simulated).toEqual([c]);
+
+    expect(() => mergeSessions(current, { ...incoming, address: "other" })).toThrow();
+  });
+
+  it("selects exactly threshold cosigners, then sticks to them", () => {
+    const settings = { threshold: 2, publicKeys: keys };
+    const committed = { [a]: {}, [b]: {}, [c]: {} };
+
+    expect(() => selectCosigners(session({ commitments: { [a]: {} } }), a, settings)).toThrow();
+
+    const first = selectCosigners(session({ commitments: committed }), b, settings);
+    expect(first.real[0]).toBe(b);
+    expect(first.real).toHaveLength(2);
+    expect(first.simulated).toHaveLength(1);
+
+    const partial = { id: "tx", inputs: [], dataInputs: [], outputs: [] };
+    const next = session({
+      commitments: committed,
+      partial,
+      signers: [b],
+      simulated: first.simulated
+    });
+    const [other] = first.real.filter((k) => k !== b);
+    const second = selectCosigners(next, other, settings);
+    expect(second.real.sort()).toEqual(first.real.sort());
+    expect(second.simulated).toEqual(first.simulated);
+    expect(() => selectCosigners(next, first.simulated[0], settings)).toThrow();
+    expect(() => selectCosigners(next, b, settings)).toThrow();
+  });
+
+  it("round-trips encoded sessions and rejects malformed ones", () => {
+    const s = session({ commitments: { [a]: { "0": [] } } });
+
+    expect(decodeSession(encodeSession(s))).toEqual(s);
+    expect(() => decodeSession('{"address":"x"}')).toThrow();
+    expect(() => decodeSession("null")).toThrow();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { joinQrChunks, parseQrChunk, QrChunk, toQrChunks } from "@/common/qrChunks";
+
+describe("EIP-19 QR chunks", () => {
+  const data = JSON.stringify({ reducedTx: "a".repeat(1000), sender: "9f".repeat(25) });
+
+  it("keeps small payloads in a single page without page properties", () => {
+    const chunks = toQrChunks("CSTX", '{"signedTx":"abc"}');
+
+    expect(chunks).toEqual(['{"CSTX":"{\\"signedTx\\":\\"abc\\"}"}']);
+    expect(parseQrChunk("CSTX", chunks[0])).toEqual({
+      page: 1,
+      pages: 1,
+      data: '{"signedTx":"abc"}'
+    });
+  });
+
+  it("splits and joins large payloads, in any scan order", () => {
+    const chunks = toQrChunks("CSR", data, 200);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(200 + 40)); // escaped quotes
+
+    const parsed = chunks.map((c) => parseQrChunk("CSR", c) as QrChunk).reverse();
+    expect(joinQrChunks(parsed.slice(1))).toBeUndefined();
+    expect(joinQrChunks(parsed)).toEqual(data);
+  });
+
+  it("ignores unrelated or malformed QR codes", () => {
+    expect(
+      parseQrChunk("CSR", "9fAzrkobHhThfpsByj4CZzUr6riYxrUtn7TjjFP88UQBFhmU5Kg")
+    ).toBeUndefined();
+    expect(parseQrChunk("CSR", '{"CSTX":"abc"}')).toBeUndefined();
+    expect(parseQrChunk("CSR", '{"CSR":"abc","p":3,"n":2}')).toBeUndefined();
+    expect(parseQrChunk("CSR", "null")).toBeUndefined();
+  });
+
+  it("throws when pages from different requests are mixed", () => {
+    const chunks: QrChunk[] = [
+      { page: 1, pages: 2, data: "a" },
+      { page: 2, pages: 3, data: "b" }
+    ];
+
+    expect(() => joinQrChunks(chunks)).toThrow();
+  });
+});
@@ -0,0 +1,46 @@
+import AES from "crypto-js/aes";
+import { describe, expect, it } from "vitest";
+import { PasswordError } from "@/common/errors";
+import {
+  decrypt,
+  encrypt,
+  getVaultVersion,
+  LEGACY_VAULT_VERSION,
+  VAULT_VERSION
+} from "@/common/vault";
+
+const params = { iterations: 1_000 }; // keep tests fast
+const mnemonic = "brown acid moon foster scatter salon expand shallow rubber tube drama flower";
+
+describe("password vault", () => {
+  it("encrypts with a fresh salt and iv, and decrypts back", async () => {
+    const a = await encrypt(mnemonic, "password", params);
+    const b = await encrypt(mnemonic, "password", params);
+
+    expect(a).not.toEqual(b);
+    expect(getVaultVersion(a)).toBe(VAULT_VERSION);
+    expect(JSON.parse(a).kdf).toMatchObject({ name: "PBKDF2", iterations: 1_000 });
+    expect(await decrypt(a, "password")).toBe(mnemonic);
+    expect(await decrypt(b, "password")).toBe(mnemonic);
+  });
+
+  it("throws a password error for a wrong password", async () => {
+    const vault = await encrypt(mnemonic, "password", params);
+    await expect(decrypt(vault, "wrong password")).rejects.toThrow(PasswordError);
+  });
+
+  it("decrypts legacy crypto-js vaults", async () => {
+    const legacy = AES.encrypt(mnemonic, "password").toString();
+
+    expect(getVaultVersion(legacy)).toBe(LEGACY_VAULT_VERSION);
+    expect(await decrypt(legacy, "password")).toBe(mnemonic);
+    await expect(decrypt(legacy, "wrong password")).rejects.toThrow(PasswordError);
+  });
+
+  it("rejects unknown vault versions", async () => {
+    const vault = JSON.parse(await encrypt(mnemonic, "password", params));
+    await expect(decrypt(JSON.stringify({ ...vault, version: 2 }), "password")).rejects.toThrow(
+      "Unsupported vault version."
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { getMultisigAddress } from "@/chains/ergo/multisig";
+import {
+  findInvalidAddresses,
+  getAddressType,
+  getWatchOnlyId,
+  parseAddressList
+} from "@/chains/ergo/watchOnly";
+import { AddressType } from "@/types/internal";
+
+const p2pk = "9fRusAarL1KkrWQVsxSRVYnvWxaAT2A96cKtNn9tvPh5XUyCisr";
+const p2sh = "8UApt8czfFVuTgQmMwtsRBZ4nfWquNiSwCWUjMg";
+const p2s = getMultisigAddress(
+  2,
+  ["02", "03"].map((prefix, i) => prefix + `${i}`.repeat(64))
+);
+
+describe("watch-only addresses", () => {
+  it("parses lists separated by spaces, commas or line breaks", () => {
+    expect(parseAddressList(` ${p2pk},${p2s}\n\n${p2pk}  ${p2sh} `)).toEqual([p2pk, p2s, p2sh]);
+    expect(parseAddressList(" \n")).toEqual([]);
+  });
+
+  it("finds invalid addresses", () => {
+    expect(findInvalidAddresses([p2pk, "invalid", p2sh])).toEqual(["invalid"]);
+  });
+
+  it("detects address types", () => {
+    expect(getAddressType(p2pk)).toBe(AddressType.P2PK);
+    expect(getAddressType(p2sh)).toBe(AddressType.P2SH);
+    expect(getAddressType(p2s)).toBe(AddressType.P2S);
+  });
+
+  it("identifies wallets regardless of addresses order", () => {
+    expect(getWatchOnlyId([p2sh, p2pk])).toBe(getWatchOnlyId([p2pk, p2sh]));
+    expect(getWatchOnlyId([p2pk])).not.toBe(getWatchOnlyId([p2sh]));
+  });
+});